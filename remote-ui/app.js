@@ -35,9 +35,11 @@
   let streamingEl = null;
   let replaying = false;
   let toolCalls = {};
+  var isViewer = false; // Read-only viewer link — server rejects input, UI hides it
 
   // Save token before it's stripped from URL bar
   var savedToken = new URLSearchParams(window.location.search).get('token') || '';
+  var paired = false; // No token — the bridge knows this browser by its pairing cookie
 
   const $ = (sel) => document.querySelector(sel);
   const terminal = $('#terminal');
@@ -182,12 +184,34 @@
   }
 
   // ─── xterm.js Terminal ───────────────────────────────────
+  // One xterm per PTY tab — `xterm` / `fitAddon` always point at the active tab
   let xterm = null;
   let fitAddon = null;
+  // The bridge's PTY size (from pty_size) — terminals render at it, letterboxed when the window is larger
+  var ptySize = null;
+  var lastCols = 0, lastRows = 0;
+
+  // Report this window's size — the bridge's size policy decides whether the PTY follows it
+  function sendResize() {
+    if (!ws || ws.readyState !== WebSocket.OPEN || !xterm || !fitAddon) return;
+    var dims = fitAddon.proposeDimensions() || { cols: xterm.cols, rows: xterm.rows };
+    if (dims.cols !== lastCols || dims.rows !== lastRows) {
+      lastCols = dims.cols;
+      lastRows = dims.rows;
+      ws.send(JSON.stringify({ type: 'pty_resize', cols: dims.cols, rows: dims.rows }));
+    }
+  }
 
-  function initXterm() {
-    if (xterm) return;
-    xterm = new Terminal({
+  function fitTerminal() {
+    if (!fitAddon) return;
+    if (!ptySize) { fitAddon.fit(); return; }
+    Object.keys(ptyTabs).forEach(function(id) { ptyTabs[id].xterm.resize(ptySize.cols, ptySize.rows); });
+    var dims = fitAddon.proposeDimensions();
+    termContainer.classList.toggle('letterbox', !!dims && (ptySize.cols < dims.cols || ptySize.rows < dims.rows));
+  }
+
+  function terminalOptions() {
+    return {
       theme: {
         background: '#0d1117',
         foreground: '#c9d1d9',
@@ -214,53 +238,148 @@
       fontSize: 13,
       scrollback: 5000,
       cursorBlink: true,
-    });
+      disableStdin: isViewer,
+    };
+  }
 
-    fitAddon = new FitAddon.FitAddon();
-    xterm.loadAddon(fitAddon);
-    xterm.open(termContainer);
-    fitAddon.fit();
+  function initXterm() {
+    if (xterm) return;
+    var tab = ensurePtyTab('main');
+    xterm = tab.xterm;
+    fitAddon = tab.fitAddon;
 
-    // Send terminal size to PTY so copilot renders correctly
-    var lastCols = 0, lastRows = 0;
     var resizeTimer = null;
-    function sendResize() {
-      if (ws && ws.readyState === WebSocket.OPEN && xterm) {
-        if (xterm.cols !== lastCols || xterm.rows !== lastRows) {
-          lastCols = xterm.cols;
-          lastRows = xterm.rows;
-          ws.send(JSON.stringify({ type: 'pty_resize', cols: xterm.cols, rows: xterm.rows }));
-        }
-      }
-    }
 
     // Handle resize — debounced to avoid rapid PTY resizes (mobile keyboard, URL bar, etc.)
     window.addEventListener('resize', () => {
       if (resizeTimer) clearTimeout(resizeTimer);
       resizeTimer = setTimeout(() => {
-        if (fitAddon) { fitAddon.fit(); sendResize(); }
+        // A recording keeps its recorded size
+        if (fitAddon && !isPlayMode) { fitTerminal(); sendResize(); }
       }, 150);
     });
 
-    // Initial size is sent on WS open (see ws.onopen)
+    // Later connections send their size on WS open (see ws.onopen)
+    sendResize();
+  }
 
-    // Keyboard input → send to bridge → PTY
-    xterm.onData((data) => {
+  // ─── PTY Tabs ────────────────────────────────────────────
+  // A bridge can run several PTYs: its own command ('main') plus any an owner
+  // opens from the bridge's ptyCommands allowlist with the ＋ tab.
+  var ptyTabs = {}; // ptyId → { xterm, fitAddon, pane, name, exitCode }
+  var activePtyId = 'main';
+  var ptyCommands = [];
+  var ptyTabsEl = $('#pty-tabs');
+
+  function ensurePtyTab(id, name) {
+    if (ptyTabs[id]) return ptyTabs[id];
+    var pane = document.createElement('div');
+    pane.className = 'pty-pane';
+    if (id !== activePtyId) pane.classList.add('hidden');
+    termContainer.appendChild(pane);
+    var t = new Terminal(terminalOptions());
+    var f = new FitAddon.FitAddon();
+    t.loadAddon(f);
+    t.open(pane);
+    if (ptySize) t.resize(ptySize.cols, ptySize.rows);
+    else if (id === activePtyId) f.fit();
+    // Keyboard input → send to bridge → this tab's PTY
+    t.onData(function(data) {
+      if (isViewer) return;
       if (ws && ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ type: 'pty_input', data }));
+        ws.send(JSON.stringify({ type: 'pty_input', ptyId: id, data: data }));
+      }
+    });
+    ptyTabs[id] = { xterm: t, fitAddon: f, pane: pane, name: name || id, exitCode: null };
+    renderPtyTabs();
+    return ptyTabs[id];
+  }
+
+  function switchPtyTab(id) {
+    var tab = ptyTabs[id];
+    if (!tab) return;
+    activePtyId = id;
+    Object.keys(ptyTabs).forEach(function(k) { ptyTabs[k].pane.classList.toggle('hidden', k !== id); });
+    xterm = tab.xterm;
+    fitAddon = tab.fitAddon;
+    fitTerminal();
+    xterm.focus();
+    renderPtyTabs();
+  }
+
+  function removePtyTab(id) {
+    var tab = ptyTabs[id];
+    if (!tab || id === 'main') return;
+    tab.xterm.dispose();
+    tab.pane.remove();
+    delete ptyTabs[id];
+    if (activePtyId === id) switchPtyTab('main');
+    else renderPtyTabs();
+  }
+
+  // Tabs only show up once there is more than one PTY or the owner may open one
+  function renderPtyTabs() {
+    if (!ptyTabsEl) return;
+    var ids = Object.keys(ptyTabs);
+    var canOpen = !isViewer && ptyCommands.length > 0;
+    ptyTabsEl.classList.toggle('hidden', ids.length < 2 && !canOpen);
+    var html = ids.map(function(id) {
+      var tab = ptyTabs[id];
+      var cls = 'pty-tab' + (id === activePtyId ? ' active' : '') + (tab.exitCode !== null ? ' exited' : '');
+      var close = id !== 'main' && !isViewer ? '<span class="pty-tab-close" data-close="' + escapeHtml(id) + '">×</span>' : '';
+      return '<button class="' + cls + '" data-pty-id="' + escapeHtml(id) + '">' + escapeHtml(tab.name) + close + '</button>';
+    }).join('');
+    if (canOpen) {
+      html += '<select class="pty-tab-new" aria-label="New tab"><option value="">＋</option>' +
+        ptyCommands.map(function(c) { return '<option value="' + escapeHtml(c) + '">' + escapeHtml(c) + '</option>'; }).join('') +
+        '</select>';
+    }
+    ptyTabsEl.innerHTML = html;
+  }
+
+  // Create missing tabs, drop ones that were closed
+  var lastPtyList = null;
+  function applyPtyList(msg) {
+    var listed = {};
+    msg.ptys.forEach(function(p) {
+      listed[p.id] = true;
+      var tab = ensurePtyTab(p.id, p.name);
+      tab.name = p.name;
+      tab.exitCode = p.exitCode === undefined ? null : p.exitCode;
+    });
+    Object.keys(ptyTabs).forEach(function(id) { if (!listed[id]) removePtyTab(id); });
+    renderPtyTabs();
+  }
+
+  if (ptyTabsEl) {
+    ptyTabsEl.addEventListener('click', function(e) {
+      var closeId = e.target.dataset && e.target.dataset.close;
+      if (closeId) {
+        if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: 'pty_close', ptyId: closeId }));
+        removePtyTab(closeId);
+        return;
       }
+      var btn = e.target.closest('.pty-tab');
+      if (btn) switchPtyTab(btn.dataset.ptyId);
+    });
+    ptyTabsEl.addEventListener('change', function(e) {
+      if (!e.target.classList.contains('pty-tab-new') || !e.target.value) return;
+      if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: 'pty_open', command: e.target.value }));
+      e.target.value = '';
     });
   }
 
   // ─── Dashboard ───────────────────────────────────────────
   let showOffline = false;
+  var launchProfiles = []; // { name, command } — hub owners can start these as new sessions
 
   async function loadSessions() {
     try {
-      var headers = savedToken ? { 'Authorization': 'Bearer ' + savedToken } : {};
+      var headers = authHeaders();
       var resp = await fetch('/api/sessions', { headers: headers });
       if (!resp.ok) throw new Error('Status ' + resp.status);
       var data = await resp.json();
+      launchProfiles = data.profiles || [];
       if (!isHubMode) {
         renderNonHubSessions(data.sessions || []);
       } else {
@@ -306,6 +425,11 @@
       '<button data-action="toggle-offline" class="hub-toolbar-btn">' + (showOffline ? 'Hide offline' : 'Show offline') + '</button>' +
       (offlineCount > 0 ? '<button data-action="clean-offline" class="hub-toolbar-btn hub-toolbar-btn-danger">Clean offline</button>' : '') +
       '<button data-action="refresh" class="hub-toolbar-btn">↻ Refresh</button>' +
+      (launchProfiles.length > 0
+        ? '<select data-action="launch" class="hub-toolbar-btn" aria-label="Launch a session"><option value="">＋ Launch…</option>' +
+          launchProfiles.map(function(p) { return '<option value="' + escapeHtml(p.name) + '" title="' + escapeHtml(p.command) + '">' + escapeHtml(p.name) + '</option>'; }).join('') +
+          '</select>'
+        : '') +
       '</div>';
 
     // Grid banner when 2+ connectable
@@ -351,11 +475,14 @@
         if (e.target.closest('[data-delete-id]')) return;
         var port = card.dataset.sessionPort;
         var baseUrl = card.dataset.sessionBaseUrl;
+        // Sessions launched by this hub are local-only — watch them through the grid relay
+        if (!baseUrl) {
+          var local = sessions.find(function(s) { return String(s.port) === port; });
+          if (local) showGridView([local]);
+          return;
+        }
         var proxyUrl = '/api/proxy/ticket/' + port;
-        fetch(proxyUrl, {
-          method: 'POST',
-          headers: savedToken ? { 'Authorization': 'Bearer ' + savedToken } : {}
-        }).then(function(r) { return r.json(); }).then(function(data) {
+        requestTicket(proxyUrl).then(function(r) { return r.json(); }).then(function(data) {
           if (data.ticket) {
             window.location.href = baseUrl + '?ticket=' + encodeURIComponent(data.ticket);
           } else {
@@ -373,6 +500,31 @@
     dashboard.querySelector('[data-action="clean-offline"]')?.addEventListener('click', function() { cleanOffline(); });
     dashboard.querySelector('[data-action="refresh"]')?.addEventListener('click', function() { loadSessions(); });
     dashboard.querySelector('[data-action="grid-view"]')?.addEventListener('click', function() { showGridView(sessions); });
+    dashboard.querySelector('[data-action="launch"]')?.addEventListener('change', function(e) {
+      if (e.target.value) launchProfile(e.target.value);
+    });
+  }
+
+  async function launchProfile(name) {
+    setStatus('connecting', 'Launching ' + name + '...');
+    try {
+      var resp = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: authHeaders({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ profile: name }),
+      });
+      var data = await resp.json();
+      if (!resp.ok) throw new Error(data.error || ('Status ' + resp.status));
+      setStatus('online', 'Hub');
+      await loadSessions();
+      // Open the grid straight away so the new session is live on screen
+      var launched = cachedSessions.find(function(s) { return s.id === data.id; }) ||
+        { id: data.id, name: data.name, port: data.port, online: true, hasToken: true };
+      showGridView([launched].concat(cachedSessions.filter(function(s) { return s !== launched; })));
+    } catch (err) {
+      setStatus('online', 'Launch failed: ' + err.message);
+      loadSessions();
+    }
   }
 
   window.openSession = (url) => {
@@ -385,7 +537,7 @@
   };
 
   window.cleanOffline = async () => {
-    const headers = savedToken ? { 'Authorization': 'Bearer ' + savedToken } : {};
+    const headers = authHeaders();
     const resp = await fetch('/api/sessions', { headers });
     const data = await resp.json();
     const offline = (data.sessions || []).filter(s => !s.online);
@@ -396,7 +548,7 @@
   };
 
   window.deleteSession = async (id) => {
-    const headers = savedToken ? { 'Authorization': 'Bearer ' + savedToken } : {};
+    const headers = authHeaders();
     await fetch('/api/sessions/' + id, { method: 'DELETE', headers });
     loadSessions();
   };
@@ -525,6 +677,7 @@
         fontSize: 11,
         scrollback: 1000,
         cursorBlink: true,
+        disableStdin: isViewer,
       });
       var panelFit = new FitAddon.FitAddon();
       panelXterm.loadAddon(panelFit);
@@ -540,6 +693,7 @@
       }
 
       panelXterm.onData(function(data) {
+        if (isViewer) return;
         if (ws && ws.readyState === WebSocket.OPEN) {
           ws.send(JSON.stringify({ type: 'grid_input', port: s.port, data: data }));
         }
@@ -725,6 +879,10 @@
     if (isRecording) { stopRecording(); var btn = document.getElementById('btn-record'); if (btn) { btn.classList.remove('recording'); btn.textContent = '⏺'; btn.title = 'Record terminal'; } }
     gridTerminals.forEach(function(gt) {
       if (gt.xterm) { try { gt.xterm.dispose(); } catch(e) {} }
+      // Let the hub drop its relay once nobody else is watching
+      if (ws && ws.readyState === WebSocket.OPEN && gt.session) {
+        ws.send(JSON.stringify({ type: 'grid_disconnect', port: gt.session.port }));
+      }
     });
     gridTerminals = [];
     window.removeEventListener('resize', fitGridPanels);
@@ -763,7 +921,7 @@
       if (ptyMode) {
         termContainer.classList.remove('hidden');
         $('#input-form').classList.add('hidden');
-        if (fitAddon) fitAddon.fit();
+        fitTerminal();
         if (xterm) xterm.focus();
       } else {
         terminal.classList.remove('hidden');
@@ -772,6 +930,76 @@
     }
   };
 
+  // ─── Session Expiry ──────────────────────────────────────
+  // The bridge sends { type: 'expiry', expiresAt, warning } on connect, when
+  // the warning period starts and whenever the session is extended.
+  function renderExpiry(msg) {
+    var bar = $('#expiry-bar');
+    if (!bar) return;
+    bar.classList.toggle('hidden', !msg.warning);
+    $('#expiry-text').textContent = 'Session expires at ' + new Date(msg.expiresAt).toLocaleTimeString();
+    $('#btn-extend').classList.toggle('hidden', isViewer);
+  }
+
+  window.extendSession = async () => {
+    try {
+      var resp = await fetch('/api/session/extend', { method: 'POST', headers: authHeaders({ 'Content-Type': 'application/json' }), body: '{}' });
+      if (!resp.ok) throw new Error('Status ' + resp.status);
+    } catch (err) {
+      setStatus('online', 'Extend failed: ' + err.message);
+    }
+  };
+
+  // ─── Notifications (Web Push) ────────────────────────────
+  // The bridge pushes trigger events (a prompt waiting, output gone quiet,
+  // the command exiting) to subscribed browsers — see sw.js.
+  var pushSupported = 'serviceWorker' in navigator && 'PushManager' in window && window.isSecureContext;
+  var notifyBtn = $('#btn-notify');
+
+  async function pushSubscription() {
+    var reg = await navigator.serviceWorker.ready;
+    return reg.pushManager.getSubscription();
+  }
+
+  async function renderNotifyButton() {
+    if (!notifyBtn) return;
+    notifyBtn.classList.toggle('hidden', !pushSupported || isViewer || (!savedToken && !paired));
+    if (!pushSupported) return;
+    var sub = await pushSubscription();
+    notifyBtn.textContent = sub ? '🔔' : '🔕';
+    notifyBtn.title = sub ? 'Notifications on — tap to turn off' : 'Turn on notifications';
+  }
+
+  window.toggleNotifications = async () => {
+    var headers = authHeaders({ 'Content-Type': 'application/json' });
+    try {
+      var existing = await pushSubscription();
+      if (existing) {
+        await fetch('/api/push/subscribe', { method: 'DELETE', headers: headers, body: JSON.stringify({ endpoint: existing.endpoint }) });
+        await existing.unsubscribe();
+      } else {
+        if (await Notification.requestPermission() !== 'granted') { setStatus('online', 'Notifications blocked'); return; }
+        var keyResp = await fetch('/api/push/key', { headers: headers });
+        var key = (await keyResp.json()).publicKey;
+        var raw = atob(key.replace(/-/g, '+').replace(/_/g, '/'));
+        var keyBytes = new Uint8Array(raw.length);
+        for (var i = 0; i < raw.length; i++) keyBytes[i] = raw.charCodeAt(i);
+        var reg = await navigator.serviceWorker.ready;
+        var sub = await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: keyBytes });
+        var resp = await fetch('/api/push/subscribe', { method: 'POST', headers: headers, body: JSON.stringify(sub.toJSON()) });
+        if (!resp.ok) { await sub.unsubscribe(); throw new Error('Status ' + resp.status); }
+      }
+    } catch (err) {
+      setStatus('online', 'Notifications failed: ' + err.message);
+    }
+    renderNotifyButton();
+  };
+
+  // Recordings (?play=1) have nothing to notify about
+  if (pushSupported && new URLSearchParams(window.location.search).get('play') !== '1') {
+    navigator.serviceWorker.register('/sw.js').then(renderNotifyButton, function() { pushSupported = false; renderNotifyButton(); });
+  }
+
   // ─── Terminal Output ─────────────────────────────────────
   function write(html, cls) {
     const div = document.createElement('div');
@@ -927,11 +1155,145 @@
 
   // ─── Detect hub mode (no token in URL) ────────────────────
   const isHubMode = new URLSearchParams(window.location.search).get('hub') === '1';
+  // Playback of a recording served by `cli-tunnel play --serve`
+  const isPlayMode = new URLSearchParams(window.location.search).get('play') === '1';
+
+  // ─── Cast Playback ───────────────────────────────────────
+  var cast = null;         // { header, events: [[seconds, code, data], ...] }
+  var playIndex = 0;       // next event to apply
+  var playPos = 0;         // current position (seconds)
+  var playSpeed = 1;
+  var playTimer = null;
+
+  async function startPlayback() {
+    var cleanUrl = new URL(window.location.href);
+    cleanUrl.searchParams.delete('token');
+    history.replaceState(null, '', cleanUrl.toString());
+    try {
+      var resp = await fetch('/api/cast', { headers: authHeaders() });
+      if (!resp.ok) { setStatus('offline', 'Auth failed'); return; }
+      cast = await resp.json();
+    } catch {
+      setStatus('offline', 'Recording unavailable');
+      return;
+    }
+    playSpeed = cast.speed || 1;
+    isViewer = true; // Nothing to type into
+    terminal.classList.add('hidden');
+    $('#input-form').classList.add('hidden');
+    $('#key-bar').classList.add('hidden');
+    $('#btn-sessions').classList.add('hidden');
+    termContainer.classList.remove('hidden');
+    initXterm();
+    renderPlayerBar();
+    seekCast(0);
+    playCastEvents();
+  }
+
+  function castDuration() {
+    return cast.events.length ? cast.events[cast.events.length - 1][0] : 0;
+  }
+
+  function applyCastEvent(ev) {
+    if (ev[1] === 'o') { xterm.write(ev[2]); return; }
+    var m = ev[1] === 'r' && /^(\d+)x(\d+)$/.exec(ev[2]);
+    if (m) xterm.resize(+m[1], +m[2]);
+  }
+
+  // Rebuild the screen at time t by replaying everything up to it
+  function seekCast(t) {
+    xterm.reset();
+    xterm.resize(cast.header.width, cast.header.height);
+    var out = '';
+    playIndex = 0;
+    while (playIndex < cast.events.length && cast.events[playIndex][0] <= t) {
+      var ev = cast.events[playIndex];
+      if (ev[1] === 'o') { out += ev[2]; } else { xterm.write(out); out = ''; applyCastEvent(ev); }
+      playIndex++;
+    }
+    xterm.write(out);
+    playPos = t;
+    updatePlayerBar();
+  }
+
+  function playCastEvents() {
+    if (playTimer) clearTimeout(playTimer);
+    if (playIndex >= cast.events.length) { playTimer = null; updatePlayerBar(); return; }
+    var ev = cast.events[playIndex];
+    playTimer = setTimeout(function() {
+      playPos = ev[0];
+      applyCastEvent(ev);
+      playIndex++;
+      updatePlayerBar();
+      playCastEvents();
+    }, Math.max(0, (ev[0] - playPos) / playSpeed * 1000));
+    updatePlayerBar();
+  }
+
+  function pauseCast() {
+    if (playTimer) clearTimeout(playTimer);
+    playTimer = null;
+    updatePlayerBar();
+  }
+
+  function formatCastTime(t) {
+    var s = Math.floor(t);
+    return Math.floor(s / 60) + ':' + String(s % 60).padStart(2, '0');
+  }
+
+  function renderPlayerBar() {
+    var bar = document.createElement('div');
+    bar.id = 'player-bar';
+    bar.innerHTML =
+      '<button id="player-toggle" title="Play/Pause">⏸</button>' +
+      '<input id="player-seek" type="range" min="0" step="0.1" value="0">' +
+      '<span id="player-time"></span>' +
+      '<select id="player-speed" title="Speed">' +
+        [0.5, 1, 1.5, 2, 4, 8].map(function(v) { return '<option value="' + v + '">' + v + '×</option>'; }).join('') +
+      '</select>';
+    $('#input-area').appendChild(bar);
+    var seek = $('#player-seek');
+    seek.max = String(castDuration());
+    var speedSel = $('#player-speed');
+    if (![].some.call(speedSel.options, function(o) { return Number(o.value) === playSpeed; })) {
+      speedSel.insertAdjacentHTML('beforeend', '<option value="' + playSpeed + '">' + playSpeed + '×</option>');
+    }
+    speedSel.value = String(playSpeed);
+
+    $('#player-toggle').addEventListener('click', function() {
+      if (playTimer) { pauseCast(); return; }
+      if (playIndex >= cast.events.length) seekCast(0);
+      playCastEvents();
+    });
+    seek.addEventListener('input', function() {
+      var playing = !!playTimer;
+      pauseCast();
+      seekCast(Number(seek.value));
+      if (playing) playCastEvents();
+    });
+    speedSel.addEventListener('change', function() {
+      playSpeed = Number(speedSel.value) || 1;
+      if (playTimer) playCastEvents();
+    });
+  }
+
+  function updatePlayerBar() {
+    var seek = document.getElementById('player-seek');
+    if (!seek) return;
+    seek.value = String(playPos);
+    $('#player-time').textContent = formatCastTime(playPos) + ' / ' + formatCastTime(castDuration());
+    $('#player-toggle').textContent = playTimer ? '⏸' : '▶';
+    setStatus('online', (playTimer ? 'Playing' : 'Paused') + (cast.name ? ' — ' + cast.name : ''));
+  }
 
   // ─── WebSocket ───────────────────────────────────────────
   let reconnectAttempt = 0;
 
   async function connect() {
+    if (isPlayMode) {
+      startPlayback();
+      return;
+    }
     if (isHubMode) {
       // Hub mode — show sessions dashboard
       setStatus('online', 'Hub');
@@ -944,13 +1306,10 @@
       setInterval(loadSessions, 10000);
 
       // Hub also needs a WS connection for grid relay
-      if (savedToken) {
+      if (savedToken || paired) {
         var proto = location.protocol === 'https:' ? 'wss:' : 'ws:';
         try {
-          var resp = await fetch('/api/auth/ticket', {
-            method: 'POST',
-            headers: { 'Authorization': 'Bearer ' + savedToken }
-          });
+          var resp = await requestTicket('/api/auth/ticket');
           if (resp.ok) {
             var data = await resp.json();
             ws = new WebSocket(proto + '//' + location.host + '?ticket=' + encodeURIComponent(data.ticket));
@@ -968,7 +1327,7 @@
 
     const ticketParam = new URLSearchParams(window.location.search).get('ticket');
 
-    if (!savedToken && !ticketParam) { setStatus('offline', 'No credentials'); return; }
+    if (!savedToken && !ticketParam && !paired) { setStatus('offline', 'No credentials'); return; }
 
     // Strip token from URL bar to prevent leaking via Referer/history
     if (savedToken) {
@@ -985,15 +1344,12 @@
     } else {
       // Exchange token for ticket
       try {
-        var resp = await fetch('/api/auth/ticket', {
-          method: 'POST',
-          headers: { 'Authorization': 'Bearer ' + savedToken }
-        });
+        var resp = await requestTicket('/api/auth/ticket');
         if (resp.ok) {
           const { ticket } = await resp.json();
           ws = new WebSocket(`${proto}//${location.host}?ticket=${encodeURIComponent(ticket)}`);
         } else {
-          setStatus('offline', 'Auth failed');
+          setStatus('offline', resp.status === 429 ? 'Locked out — too many wrong codes' : 'Auth failed');
           return;
         }
       } catch {
@@ -1010,9 +1366,17 @@
       // Reset resize tracking so initial pty_resize is always sent on new connection
       if (xterm) { lastCols = 0; lastRows = 0; sendResize(); }
     };
-    ws.onclose = () => {
+    ws.onclose = (ev) => {
       if (isRecording) { stopRecording(); var btn = document.getElementById('btn-record'); if (btn) { btn.classList.remove('recording'); btn.textContent = '⏺'; btn.title = 'Record terminal'; } }
       connected = false; acpReady = false; sessionId = null;
+      // Closed for good — the old token no longer opens this session
+      if (ev.code === 4001) { setStatus('offline', 'Session expired'); return; }
+      if (ev.code === 4002) {
+        // Rotation also forgets paired browsers — ask for a new code
+        if (!savedToken) { paired = false; showPairing(); }
+        setStatus('offline', savedToken ? 'Token rotated — open the new URL' : 'Token rotated — pair again');
+        return;
+      }
       if (reconnectAttempt >= 10) {
         setStatus('offline', 'Connection lost');
         return;
@@ -1033,7 +1397,7 @@
 
   // Reconnect immediately when phone comes back from background
   document.addEventListener('visibilitychange', function() {
-    if (!document.hidden && !connected && !isHubMode) {
+    if (!document.hidden && !connected && !isHubMode && !isPlayMode) {
       reconnectAttempt = 0;
       connect();
     }
@@ -1053,6 +1417,19 @@
       return;
     }
 
+    // Role assigned by the bridge — viewers get a read-only terminal without the key bar
+    if (msg.type === 'role') {
+      isViewer = msg.role === 'viewer';
+      var keyBarEl = document.getElementById('key-bar');
+      if (keyBarEl) keyBarEl.classList.toggle('hidden', isViewer);
+      Object.keys(ptyTabs).forEach(function(id) { ptyTabs[id].xterm.options.disableStdin = isViewer; });
+      renderPtyTabs();
+      gridTerminals.forEach(function(g) { if (g.xterm) g.xterm.options.disableStdin = isViewer; });
+      if (isViewer && !isHubMode) setStatus('online', 'View only');
+      renderNotifyButton();
+      return;
+    }
+
     // Grid relay messages from hub
     if (msg.type === 'grid_pty') {
       var gt = gridTerminals.find(function(g) { return g.session && g.session.port === msg.port; });
@@ -1060,6 +1437,13 @@
       return;
     }
 
+    // Screen snapshot for a grid panel — replaces whatever the panel showed before
+    if (msg.type === 'grid_snapshot') {
+      var gt = gridTerminals.find(function(g) { return g.session && g.session.port === msg.port; });
+      if (gt && gt.xterm) { gt.xterm.reset(); gt.xterm.write(msg.data); }
+      return;
+    }
+
     if (msg.type === 'grid_connected') {
       var gt = gridTerminals.find(function(g) { return g.session && g.session.port === msg.port; });
       if (gt) {
@@ -1073,23 +1457,64 @@
       var gt = gridTerminals.find(function(g) { return g.session && g.session.port === msg.port; });
       if (gt) {
         var dot = gt.panel.querySelector('.grid-panel-status');
-        if (dot) { dot.style.color = 'var(--red)'; dot.title = 'Disconnected'; }
+        if (dot) { dot.style.color = 'var(--red)'; dot.title = msg.retryAt ? 'Disconnected — reconnecting' : 'Disconnected'; }
       }
       return;
     }
 
+    // The bridge's PTYs — arrives before the first snapshot, applied once the terminal is up
+    if (msg.type === 'pty_list') {
+      ptyCommands = msg.commands || [];
+      lastPtyList = msg;
+      if (ptyMode) applyPtyList(msg);
+      return;
+    }
+    if (msg.type === 'pty_opened') {
+      if (ptyMode) switchPtyTab(msg.ptyId);
+      return;
+    }
+    if (msg.type === 'pty_exit') {
+      var exited = ptyTabs[msg.ptyId];
+      if (exited) exited.xterm.write('\r\n\x1b[2m[process exited with code ' + msg.exitCode + ']\x1b[0m\r\n');
+      return;
+    }
+    if (msg.type === 'pty_error') {
+      setStatus('online', msg.message);
+      return;
+    }
+    if (msg.type === 'expiry') {
+      renderExpiry(msg);
+      return;
+    }
+    if (msg.type === 'pty_size') {
+      ptySize = { cols: msg.cols, rows: msg.rows };
+      fitTerminal();
+      return;
+    }
+    // Remote input policy — a typed line was blocked, or waits for approval at the computer
+    if (msg.type === 'policy') {
+      if (msg.decision === 'held') setStatus('connecting', 'Waiting for approval at the computer (' + msg.rule + ')...');
+      else if (msg.decision === 'denied') setStatus('online', 'Blocked by input policy: ' + msg.rule);
+      else setStatus('online', 'Approved: ' + msg.rule);
+      return;
+    }
+
     // PTY data — raw terminal output → xterm.js
-    if (msg.type === 'pty') {
+    // A snapshot (sent on connect) is the serialized current screen: reset, then draw it
+    if (msg.type === 'pty' || msg.type === 'snapshot') {
       if (!ptyMode) {
         ptyMode = true;
-        setStatus('online', 'PTY Mirror');
+        setStatus('online', isViewer ? 'View only' : 'PTY Mirror');
         terminal.classList.add('hidden');
         // Hide text input form but keep key bar visible
         $('#input-form').classList.add('hidden');
         termContainer.classList.remove('hidden');
         initXterm();
+        if (lastPtyList) applyPtyList(lastPtyList);
       }
-      xterm.write(msg.data);
+      var target = ensurePtyTab(msg.ptyId || 'main').xterm;
+      if (msg.type === 'snapshot') target.reset();
+      target.write(msg.data);
       return;
     }
 
@@ -1211,7 +1636,7 @@
         takeScreenshot();
         return;
       }
-      if (btn && btn.tagName === 'BUTTON' && btn.dataset.key) {
+      if (btn && btn.tagName === 'BUTTON' && btn.dataset.key && !isViewer) {
         var key = keyMap[btn.dataset.key] || btn.dataset.key;
         if (currentView === 'grid' && gridMode === 'fullscreen' && gridTerminals[focusedIndex]) {
           var gt = gridTerminals[focusedIndex];
@@ -1221,7 +1646,7 @@
           if (gt.xterm) gt.xterm.focus();
         } else {
           if (ws && ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: 'pty_input', data: key }));
+            ws.send(JSON.stringify({ type: 'pty_input', ptyId: activePtyId, data: key }));
           }
           if (xterm) xterm.focus();
         }
@@ -1230,8 +1655,8 @@
   }
 
   window.sendKey = (key) => {
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'pty_input', data: key }));
+    if (!isViewer && ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type: 'pty_input', ptyId: activePtyId, data: key }));
     }
     if (xterm) xterm.focus();
   };
@@ -1265,6 +1690,12 @@
   });
 
   // ─── Helpers ─────────────────────────────────────────────
+  // The token when the page was opened with one — a pairing cookie is sent by the browser itself
+  function authHeaders(extra) {
+    var headers = Object.assign({}, extra);
+    if (savedToken) headers['Authorization'] = 'Bearer ' + savedToken;
+    return headers;
+  }
   function setStatus(state, text) {
     statusEl.className = state;
     statusText.textContent = text;
@@ -1283,8 +1714,89 @@
       .replace(/\n/g, '<br>');
   }
 
+  // ─── Pairing ─────────────────────────────────────────────
+  // Opened without a token: the terminal running cli-tunnel shows a one-time
+  // code, and POST /api/auth/pair trades it for an HttpOnly cookie.
+  var pairOverlay = $('#pair-overlay');
+
+  function showPairing() {
+    pairOverlay.classList.remove('hidden');
+    $('#pair-error').textContent = '';
+    $('#pair-code').value = '';
+    $('#pair-code').focus();
+  }
+
+  $('#pair-form').addEventListener('submit', async (e) => {
+    e.preventDefault();
+    var errorEl = $('#pair-error');
+    try {
+      var resp = await fetch('/api/auth/pair', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: $('#pair-code').value }),
+      });
+      if (resp.status === 429) { errorEl.textContent = 'Too many attempts — wait a minute'; return; }
+      if (!resp.ok) { errorEl.textContent = 'Wrong or expired code — type ~p in the terminal for a new one'; return; }
+    } catch {
+      errorEl.textContent = 'Bridge unreachable';
+      return;
+    }
+    paired = true;
+    pairOverlay.classList.add('hidden');
+    reconnectAttempt = 0;
+    connect();
+  });
+
+  // ─── Authenticator code ──────────────────────────────────
+  // After `cli-tunnel totp setup` every ticket needs a fresh code from the
+  // authenticator app — the bridge answers 401/429 with a `totp` field.
+  var totpOverlay = $('#totp-overlay');
+  var totpAnswer = null;
+
+  function askTotp(message) {
+    totpOverlay.classList.remove('hidden');
+    $('#totp-error').textContent = message || '';
+    $('#totp-code').value = '';
+    $('#totp-code').focus();
+    return new Promise(function(resolve) { totpAnswer = resolve; });
+  }
+
+  function answerTotp(code) {
+    totpOverlay.classList.add('hidden');
+    if (totpAnswer) { totpAnswer(code); totpAnswer = null; }
+  }
+
+  $('#totp-form').addEventListener('submit', function(e) {
+    e.preventDefault();
+    answerTotp($('#totp-code').value.replace(/\s/g, ''));
+  });
+  $('#totp-cancel').addEventListener('click', function() { answerTotp(null); });
+
+  // POST for a ticket, asking for an authenticator code as often as the bridge wants one
+  async function requestTicket(url) {
+    var code = null;
+    for (;;) {
+      var resp = await fetch(url, { method: 'POST', headers: authHeaders(code ? { 'X-TOTP-Code': code } : {}) });
+      if (resp.status !== 401 && resp.status !== 429) return resp;
+      var body = await resp.clone().json().catch(function() { return {}; });
+      if (!body.totp || body.totp === 'locked') return resp;
+      var message = body.totp === 'required' ? '' : body.error;
+      code = await askTotp(message);
+      if (!code) return resp;
+    }
+  }
+
+  async function start() {
+    var hasTicket = new URLSearchParams(window.location.search).has('ticket');
+    if (!savedToken && !hasTicket) {
+      try { paired = (await fetch('/api/auth/pair')).ok; } catch {}
+      if (!paired) { setStatus('offline', 'Not paired'); showPairing(); return; }
+    }
+    connect();
+  }
+
   // ─── Start ───────────────────────────────────────────────
   writeSys('cli-tunnel');
-  connect();
+  start();
 })();
 
@@ -0,0 +1,27 @@
+/**
+ * cli-tunnel service worker — shows Web Push notifications from output
+ * triggers (see src/triggers.ts) while the page is closed or in the background.
+ */
+'use strict';
+
+self.addEventListener('push', (event) => {
+  var data = {};
+  try { data = event.data ? event.data.json() : {}; } catch (e) { data = { trigger: 'cli-tunnel', reason: 'output' }; }
+  var body = data.reason === 'exit' ? 'Exited with code ' + data.exitCode
+    : data.reason === 'idle' ? 'No output for a while'
+    : (data.match || 'Output matched');
+  event.waitUntil(self.registration.showNotification((data.session || 'cli-tunnel') + ' · ' + data.trigger, {
+    body: body,
+    // One notification per session and trigger — a repeat replaces the last one
+    tag: (data.sessionId || '') + ':' + data.trigger,
+    renotify: true,
+  }));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+    if (windows.length > 0) return windows[0].focus();
+    return self.clients.openWindow('/');
+  }));
+});
@@ -0,0 +1,122 @@
+import fs from 'node:fs';
+
+// ─── asciinema v2 (.cast) recording and playback ────────────
+// Format: first line is a JSON header, every following line is an event
+// [seconds, code, data] — 'o' = output, 'r' = resize ("COLSxROWS").
+// https://docs.asciinema.org/manual/asciicast/v2/
+
+export interface CastHeader {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp?: number;
+  title?: string;
+  command?: string;
+  env?: Record<string, string>;
+}
+
+export type CastEvent = [number, string, string];
+
+export interface Cast {
+  header: CastHeader;
+  events: CastEvent[];
+}
+
+export interface CastRecorder {
+  readonly path: string;
+  output(data: string): void;
+  resize(cols: number, rows: number): void;
+  close(): void;
+}
+
+/**
+ * Record to an asciicast file. Writes are synchronous so the file is complete
+ * even when the bridge exits straight from the PTY exit handler.
+ */
+export function createCastRecorder(filePath: string, header: Omit<CastHeader, 'version'>): CastRecorder {
+  const fd = fs.openSync(filePath, 'w', 0o600);
+  const start = performance.now();
+  let closed = false;
+  const writeLine = (value: unknown) => {
+    if (closed) return;
+    try { fs.writeSync(fd, JSON.stringify(value) + '\n'); } catch (err) {
+      console.error('Recording error:', (err as Error).message);
+      closed = true;
+    }
+  };
+  const elapsed = () => Math.round(performance.now() - start) / 1000;
+
+  writeLine({ version: 2, ...header });
+
+  return {
+    path: filePath,
+    output(data) { writeLine([elapsed(), 'o', data]); },
+    resize(cols, rows) { writeLine([elapsed(), 'r', `${cols}x${rows}`]); },
+    close() {
+      if (closed) return;
+      closed = true;
+      try { fs.closeSync(fd); } catch {}
+    },
+  };
+}
+
+export function parseCast(text: string): Cast {
+  const lines = text.split('\n').filter(l => l.trim() !== '');
+  if (lines.length === 0) throw new Error('Empty cast file');
+  let header: CastHeader;
+  try { header = JSON.parse(lines[0]!); } catch { throw new Error('Invalid cast header (line 1 is not JSON)'); }
+  if (header.version !== 2 || !Number.isFinite(header.width) || !Number.isFinite(header.height)) {
+    throw new Error('Unsupported cast file — expected an asciicast v2 header with width and height');
+  }
+  const events: CastEvent[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    let ev: unknown;
+    try { ev = JSON.parse(lines[i]!); } catch { throw new Error(`Invalid cast event on line ${i + 1}`); }
+    if (!Array.isArray(ev) || typeof ev[0] !== 'number' || typeof ev[1] !== 'string' || typeof ev[2] !== 'string') {
+      throw new Error(`Invalid cast event on line ${i + 1}`);
+    }
+    events.push(ev as CastEvent);
+  }
+  return { header, events };
+}
+
+export function readCast(filePath: string): Cast {
+  return parseCast(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Cap the pause between consecutive events at `limit` seconds and shift the
+ * rest of the timeline back accordingly (asciinema's idle_time_limit).
+ */
+export function limitIdle(events: CastEvent[], limit: number): CastEvent[] {
+  if (!Number.isFinite(limit) || limit <= 0) return events;
+  let prev = 0;
+  let shift = 0;
+  return events.map(([time, code, data]) => {
+    const gap = time - prev;
+    if (gap > limit) shift += gap - limit;
+    prev = time;
+    return [Math.round((time - shift) * 1000) / 1000, code, data];
+  });
+}
+
+export interface PlayOptions {
+  speed?: number;
+  /** Cap pauses between events to this many seconds */
+  idleTimeLimit?: number;
+  write?: (data: string) => void;
+}
+
+/** Replay output events in real time (scaled by speed) to the local terminal */
+export async function playCast(cast: Cast, options: PlayOptions = {}): Promise<void> {
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+  const write = options.write ?? ((d: string) => { process.stdout.write(d); });
+  const events = limitIdle(cast.events, options.idleTimeLimit ?? Infinity);
+  let prev = 0;
+  for (const [time, code, data] of events) {
+    const wait = Math.max(0, time - prev) / speed;
+    prev = time;
+    if (wait > 0) await new Promise((r) => setTimeout(r, wait * 1000));
+    if (code === 'o') write(data);
+  }
+}
@@ -0,0 +1,441 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+// ─── Tamper-evident audit log ───────────────────────────────
+// One JSONL file per day (audit-YYYY-MM-DD.jsonl), split into
+// audit-YYYY-MM-DD.N.jsonl when it grows past maxBytes. Every process writes
+// its own hash chain: records carry the chain id, a sequence number, the
+// previous record's hash and their own hash, so edits, deletions and gaps
+// show up in `cli-tunnel audit verify`. Writes are synchronous so nothing is
+// lost when the bridge exits straight from the PTY exit handler.
+//
+// The ends of a chain are anchored too. heads/<chain>.json holds the last
+// record written, so records cut from the end show up. Retention writes a
+// 'prune' record naming where each chain it cut off stood, so a chain may
+// only start mid-way right after a position retention vouched for.
+
+const GENESIS = '0'.repeat(64);
+const FILE_RE = /^audit-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.jsonl$/;
+const HEADS_DIR = 'heads';
+
+/** Where a chain stands — its last record's sequence number and hash */
+interface ChainPosition {
+  seq: number;
+  hash: string;
+}
+
+export interface AuditRecord {
+  chain: string;
+  seq: number;
+  ts: string;
+  type: string;
+  prev: string;
+  hash: string;
+  [field: string]: unknown;
+}
+
+export interface AuditLogOptions {
+  dir: string;
+  /** Fields stamped on every record, e.g. the session name and id */
+  context?: Record<string, unknown>;
+  /** Start a new file once the current one reaches this size */
+  maxBytes: number;
+  /** Delete files older than this many days */
+  retentionDays: number;
+  /** Clock override for tests */
+  now?: () => Date;
+}
+
+export interface AuditLog {
+  /** File currently being written */
+  readonly path: string;
+  readonly chain: string;
+  write(entry: { type: string; [field: string]: unknown }): void;
+  close(): void;
+}
+
+function hashRecord(record: Omit<AuditRecord, 'hash'>): string {
+  return crypto.createHash('sha256').update(JSON.stringify(record)).digest('hex');
+}
+
+/** Audit files in write order: by date, then rotation index */
+export function listAuditFiles(dir: string): string[] {
+  let names: string[];
+  try { names = fs.readdirSync(dir); } catch { return []; }
+  return names
+    .map(name => ({ name, m: FILE_RE.exec(name) }))
+    .filter((f): f is { name: string; m: RegExpExecArray } => f.m !== null)
+    .sort((a, b) => a.m[1]!.localeCompare(b.m[1]!) || Number(a.m[2] ?? 0) - Number(b.m[2] ?? 0))
+    .map(f => path.join(dir, f.name));
+}
+
+const headPath = (dir: string, chain: string) => path.join(dir, HEADS_DIR, `${chain}.json`);
+
+function readHead(file: string): ChainPosition | null {
+  try {
+    const head = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return typeof head.seq === 'number' && typeof head.hash === 'string' ? { seq: head.seq, hash: head.hash } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete files past retention. Returns where each chain stood at the end of
+ * the deleted files — including positions earlier prune records in them
+ * vouched for — so the caller can record them. Heads of chains that ended in
+ * the deleted files go with them.
+ */
+function pruneAuditFiles(dir: string, retentionDays: number, now: Date): { files: string[]; chains: Record<string, ChainPosition> } {
+  const cutoff = new Date(now.getTime() - retentionDays * 86400000).toISOString().slice(0, 10);
+  const files: string[] = [];
+  const chains: Record<string, ChainPosition> = {};
+  const advance = (chain: string, pos: ChainPosition) => {
+    if (!chains[chain] || chains[chain]!.seq < pos.seq) chains[chain] = { seq: pos.seq, hash: pos.hash };
+  };
+  for (const file of listAuditFiles(dir)) {
+    const date = FILE_RE.exec(path.basename(file))![1]!;
+    if (date >= cutoff) continue;
+    for (const { record } of readFileLines(file)) {
+      if (!record || typeof record.chain !== 'string' || typeof record.seq !== 'number' || typeof record.hash !== 'string') continue;
+      advance(record.chain, record);
+      if (record.type === 'prune' && record.chains && typeof record.chains === 'object') {
+        for (const [chain, pos] of Object.entries(record.chains as Record<string, ChainPosition>)) advance(chain, pos);
+      }
+    }
+    try {
+      fs.unlinkSync(file);
+      files.push(path.basename(file));
+    } catch {}
+  }
+  for (const [chain, pos] of Object.entries(chains)) {
+    if (readHead(headPath(dir, chain))?.hash === pos.hash) { try { fs.unlinkSync(headPath(dir, chain)); } catch {} }
+  }
+  return { files, chains };
+}
+
+export function createAuditLog(options: AuditLogOptions): AuditLog {
+  const now = options.now ?? (() => new Date());
+  const chain = crypto.randomBytes(6).toString('hex');
+  fs.mkdirSync(path.join(options.dir, HEADS_DIR), { recursive: true, mode: 0o700 });
+
+  let seq = 0;
+  let prev = GENESIS;
+  let fd: number | null = null;
+  let filePath = '';
+  let fileDate = '';
+  let fileIndex = 0;
+  let fileBytes = 0;
+  let failed = false;
+  let pruned: ReturnType<typeof pruneAuditFiles> | null = null;
+
+  const open = (date: string) => {
+    if (fd !== null) { try { fs.closeSync(fd); } catch {} }
+    if (date !== fileDate) {
+      // Continue after the highest index already on disk for this date
+      fileIndex = 0;
+      for (const f of listAuditFiles(options.dir)) {
+        const m = FILE_RE.exec(path.basename(f))!;
+        if (m[1] === date) fileIndex = Math.max(fileIndex, Number(m[2] ?? 0));
+      }
+      fileDate = date;
+      pruned = pruneAuditFiles(options.dir, options.retentionDays, now());
+    }
+    for (;;) {
+      filePath = path.join(options.dir, `audit-${date}${fileIndex ? `.${fileIndex}` : ''}.jsonl`);
+      try { fileBytes = fs.statSync(filePath).size; } catch { fileBytes = 0; }
+      if (fileBytes < options.maxBytes) break;
+      fileIndex++;
+    }
+    fd = fs.openSync(filePath, 'a', 0o600);
+    // Vouch for the chains retention just cut off — verify accepts them starting right after these positions
+    if (pruned && Object.keys(pruned.chains).length > 0) append({ type: 'prune', files: pruned.files, chains: pruned.chains });
+    pruned = null;
+  };
+
+  const append = (entry: { type: string; [field: string]: unknown }) => {
+    const ts = now();
+    const record: Omit<AuditRecord, 'hash'> = { chain, seq: ++seq, ts: ts.toISOString(), ...options.context, ...entry, prev };
+    const hash = hashRecord(record);
+    const line = JSON.stringify({ ...record, hash }) + '\n';
+    fs.writeSync(fd!, line);
+    fileBytes += Buffer.byteLength(line);
+    prev = hash;
+    fs.writeFileSync(headPath(options.dir, chain), JSON.stringify({ seq, hash }), { mode: 0o600 });
+  };
+
+  open(now().toISOString().slice(0, 10));
+
+  return {
+    get path() { return filePath; },
+    chain,
+    write(entry) {
+      if (failed) return;
+      const date = now().toISOString().slice(0, 10);
+      try {
+        if (date !== fileDate) open(date);
+        else if (fileBytes >= options.maxBytes) { fileIndex++; open(date); }
+        append(entry);
+      } catch (err) {
+        console.error('Audit log error:', (err as Error).message);
+        failed = true;
+      }
+    },
+    close() {
+      if (fd === null) return;
+      try { fs.closeSync(fd); } catch {}
+      fd = null;
+      failed = true;
+    },
+  };
+}
+
+// ─── Reading & verification ─────────────────────────────────
+
+export interface AuditLine {
+  file: string;
+  line: number;
+  record: AuditRecord | null;
+  raw: string;
+}
+
+/** Every line of every audit file, in write order. Unparseable lines have record: null. */
+export function* readAuditLines(dir: string): Generator<AuditLine> {
+  for (const file of listAuditFiles(dir)) yield* readFileLines(file);
+}
+
+function* readFileLines(file: string): Generator<AuditLine> {
+  let text: string;
+  try { text = fs.readFileSync(file, 'utf-8'); } catch { return; }
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i]!;
+    if (raw.trim() === '') continue;
+    let record: AuditRecord | null = null;
+    try { record = JSON.parse(raw); } catch {}
+    yield { file, line: i + 1, record, raw };
+  }
+}
+
+export interface AuditProblem {
+  file: string;
+  line: number;
+  message: string;
+}
+
+export interface AuditVerifyResult {
+  files: number;
+  records: number;
+  chains: number;
+  problems: AuditProblem[];
+  /** Chains whose first records were removed by retention — vouched for by a prune record */
+  truncated: string[];
+}
+
+export function verifyAuditLog(dir: string): AuditVerifyResult {
+  const chains = new Map<string, ChainPosition>();
+  const problems: AuditProblem[] = [];
+  const truncated: string[] = [];
+  let records = 0;
+  // Chains that start mid-way, checked against prune records once they have all been read
+  const starts: Array<{ at: { file: string; line: number }; record: AuditRecord }> = [];
+  // `chain#seq hash` positions prune records vouch for
+  const vouched = new Set<string>();
+  const heads = new Map<string, ChainPosition>();
+  let headNames: string[] = [];
+  try { headNames = fs.readdirSync(path.join(dir, HEADS_DIR)).filter(n => n.endsWith('.json')); } catch {}
+  for (const name of headNames) {
+    const head = readHead(path.join(dir, HEADS_DIR, name));
+    if (head) heads.set(name.slice(0, -'.json'.length), head);
+    else problems.push({ file: path.posix.join(HEADS_DIR, name), line: 1, message: 'head anchor is not valid' });
+  }
+
+  for (const { file, line, record } of readAuditLines(dir)) {
+    const at = { file: path.basename(file), line };
+    if (!record || typeof record !== 'object') { problems.push({ ...at, message: 'not valid JSON' }); continue; }
+    const { hash, ...body } = record;
+    if (typeof record.chain !== 'string' || typeof record.seq !== 'number' || typeof hash !== 'string') {
+      problems.push({ ...at, message: 'record has no chain/seq/hash (written before hash chaining, or edited)' });
+      continue;
+    }
+    records++;
+    if (hashRecord(body as Omit<AuditRecord, 'hash'>) !== hash) {
+      problems.push({ ...at, message: `hash mismatch — record ${record.chain}#${record.seq} was modified` });
+    }
+    if (record.type === 'prune' && record.chains && typeof record.chains === 'object') {
+      for (const [chain, pos] of Object.entries(record.chains as Record<string, ChainPosition>)) vouched.add(`${chain}#${pos?.seq} ${pos?.hash}`);
+    }
+    const head = heads.get(record.chain);
+    if (head && head.seq === record.seq && head.hash !== hash) {
+      problems.push({ ...at, message: `chain ${record.chain} does not match its head anchor at #${record.seq} — records were rewritten` });
+    }
+    const last = chains.get(record.chain);
+    if (!last) {
+      if (record.seq !== 1 || record.prev !== GENESIS) starts.push({ at, record });
+    } else {
+      if (record.seq !== last.seq + 1) {
+        problems.push({ ...at, message: record.seq > last.seq + 1
+          ? `gap in chain ${record.chain}: records ${last.seq + 1}–${record.seq - 1} are missing`
+          : `chain ${record.chain} goes back from #${last.seq} to #${record.seq} (duplicated or reordered)` });
+      } else if (record.prev !== last.hash) {
+        problems.push({ ...at, message: `chain ${record.chain} broken at #${record.seq} — previous record was modified or replaced` });
+      }
+    }
+    chains.set(record.chain, { seq: record.seq, hash });
+  }
+
+  // Only retention may cut the start of a chain, and it says so
+  for (const { at, record } of starts) {
+    if (vouched.has(`${record.chain}#${record.seq - 1} ${record.prev}`)) truncated.push(record.chain);
+    else problems.push({ ...at, message: `chain ${record.chain} starts at #${record.seq} — its earlier records were removed` });
+  }
+  // …and the end of every chain must be where its head anchor says
+  for (const [chain, last] of chains) {
+    const head = heads.get(chain);
+    if (!head) problems.push({ file: path.posix.join(HEADS_DIR, `${chain}.json`), line: 1, message: `chain ${chain} has no head anchor — its last records may have been removed` });
+    else if (last.seq < head.seq) {
+      problems.push({ file: path.posix.join(HEADS_DIR, `${chain}.json`), line: 1, message: `records ${last.seq + 1}–${head.seq} at the end of chain ${chain} are missing` });
+    }
+  }
+  for (const [chain, head] of heads) {
+    if (!chains.has(chain) && !vouched.has(`${chain}#${head.seq} ${head.hash}`)) {
+      problems.push({ file: path.posix.join(HEADS_DIR, `${chain}.json`), line: 1, message: `all records of chain ${chain} are missing (head anchor at #${head.seq})` });
+    }
+  }
+
+  return { files: listAuditFiles(dir).length, records, chains: chains.size, problems, truncated };
+}
+
+// ─── Querying ───────────────────────────────────────────────
+
+export interface AuditQuery {
+  /** Session name or session id */
+  session?: string;
+  since?: Date;
+  until?: Date;
+  src?: string;
+  type?: string;
+  reason?: string;
+  conn?: string;
+}
+
+export type AuditFormat = 'table' | 'json' | 'csv';
+export const AUDIT_FORMATS: readonly AuditFormat[] = ['table', 'json', 'csv'];
+
+/** ISO date/time, or a duration back from now: 30m, 2h, 7d */
+export function parseAuditTime(value: string, now = new Date()): Date | null {
+  const rel = /^(\d+)([smhd])$/.exec(value);
+  if (rel) {
+    const unit = { s: 1000, m: 60000, h: 3600000, d: 86400000 }[rel[2] as 's' | 'm' | 'h' | 'd'];
+    return new Date(now.getTime() - Number(rel[1]) * unit);
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function matchesAuditQuery(record: AuditRecord, q: AuditQuery): boolean {
+  if (q.session && record.session !== q.session && record.sessionId !== q.session) return false;
+  if (q.src && record.src !== q.src) return false;
+  if (q.type && record.type !== q.type) return false;
+  if (q.reason && record.reason !== q.reason) return false;
+  if (q.conn && !(typeof record.conn === 'string' && record.conn.startsWith(q.conn))) return false;
+  if (q.since || q.until) {
+    const ts = new Date(record.ts).getTime();
+    if (q.since && !(ts >= q.since.getTime())) return false;
+    if (q.until && !(ts <= q.until.getTime())) return false;
+  }
+  return true;
+}
+
+/** Records matching the query, in write order — unparseable lines are skipped */
+export function* queryAuditLog(dir: string, q: AuditQuery): Generator<AuditRecord> {
+  for (const { record } of readAuditLines(dir)) {
+    if (record && typeof record === 'object' && matchesAuditQuery(record, q)) yield record;
+  }
+}
+
+const CSV_COLUMNS = ['ts', 'session', 'sessionId', 'conn', 'ptyId', 'src', 'role', 'type', 'reason', 'data'] as const;
+
+function csvField(value: unknown): string {
+  const s = value === undefined || value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** What happened, in one cell — the input typed, or why it was rejected */
+function auditDetail(r: AuditRecord): string {
+  if (typeof r.data === 'string') return JSON.stringify(r.data);
+  if (r.reason) return String(r.reason) + (r.msgType ? ` (${r.msgType})` : '');
+  if (r.role) return String(r.role);
+  return '';
+}
+
+export interface AuditFormatter {
+  /** Printed once before the first record (may be empty) */
+  header(): string;
+  row(record: AuditRecord): string;
+}
+
+export function createAuditFormatter(format: AuditFormat): AuditFormatter {
+  switch (format) {
+    case 'json':
+      return { header: () => '', row: (r) => JSON.stringify(r) };
+    case 'csv':
+      return {
+        header: () => CSV_COLUMNS.join(','),
+        row: (r) => CSV_COLUMNS.map(c => csvField(r[c])).join(','),
+      };
+    case 'table': {
+      const cols = (ts: string, session: string, conn: string, src: string, type: string, detail: string) =>
+        `${ts.padEnd(19)}  ${session.padEnd(16)}  ${conn.padEnd(8)}  ${src.padEnd(15)}  ${type.padEnd(10)}  ${detail}`;
+      return {
+        header: () => cols('TIME', 'SESSION', 'CONN', 'SOURCE', 'TYPE', 'DETAIL'),
+        row: (r) => cols(
+          String(r.ts ?? '').slice(0, 19).replace('T', ' '),
+          String(r.session ?? '-').slice(0, 16),
+          String(r.conn ?? '-').slice(0, 8),
+          String(r.src ?? '-').replace(/^::ffff:/, ''),
+          String(r.type ?? '-'),
+          auditDetail(r).slice(0, 80),
+        ),
+      };
+    }
+  }
+}
+
+/**
+ * Poll the audit directory for appended records (including new files from
+ * rotation) and hand each complete line to onRecord. Only records written
+ * after the call are reported.
+ */
+export function followAuditLog(dir: string, onRecord: (record: AuditRecord) => void, pollMs = 500): { stop(): void } {
+  const offsets = new Map<string, number>();
+  for (const file of listAuditFiles(dir)) {
+    try { offsets.set(file, fs.statSync(file).size); } catch {}
+  }
+  const poll = () => {
+    for (const file of listAuditFiles(dir)) {
+      let size: number;
+      try { size = fs.statSync(file).size; } catch { continue; }
+      const from = offsets.get(file) ?? 0;
+      if (size <= from) continue;
+      const buf = Buffer.alloc(size - from);
+      let fd: number | null = null;
+      try {
+        fd = fs.openSync(file, 'r');
+        fs.readSync(fd, buf, 0, buf.length, from);
+      } catch { continue; } finally { if (fd !== null) fs.closeSync(fd); }
+      // Only consume complete lines — a record may be mid-write
+      const text = buf.toString('utf-8');
+      const end = text.lastIndexOf('\n');
+      if (end === -1) continue;
+      offsets.set(file, from + Buffer.byteLength(text.slice(0, end + 1)));
+      for (const line of text.slice(0, end).split('\n')) {
+        if (!line.trim()) continue;
+        try { onRecord(JSON.parse(line)); } catch {}
+      }
+    }
+  };
+  const timer = setInterval(poll, pollMs);
+  return { stop() { clearInterval(timer); } };
+}
@@ -0,0 +1,73 @@
+// ─── Automation API helpers ─────────────────────────────────
+// Scripts drive a bridge over plain HTTP: read the screen, send text and
+// named keys, and wait for a pattern to show up. See /api/screen, /api/status,
+// /api/input and /api/wait in index.ts.
+
+/** Keys a script can name instead of spelling out escape sequences */
+export const NAMED_KEYS: Readonly<Record<string, string>> = {
+  enter: '\r',
+  tab: '\t',
+  'shift-tab': '\x1b[Z',
+  escape: '\x1b',
+  esc: '\x1b',
+  backspace: '\x7f',
+  delete: '\x1b[3~',
+  space: ' ',
+  up: '\x1b[A',
+  down: '\x1b[B',
+  right: '\x1b[C',
+  left: '\x1b[D',
+  home: '\x1b[H',
+  end: '\x1b[F',
+  pageup: '\x1b[5~',
+  pagedown: '\x1b[6~',
+};
+
+/** The bytes for a named key — `ctrl-c` style for control keys — or null when unknown */
+export function keySequence(name: string): string | null {
+  const key = name.toLowerCase();
+  if (Object.hasOwn(NAMED_KEYS, key)) return NAMED_KEYS[key]!;
+  const ctrl = key.match(/^ctrl[-+]([a-z@[\\\]^_])$/);
+  if (ctrl) return String.fromCharCode(ctrl[1]!.toUpperCase().charCodeAt(0) - 64);
+  return null;
+}
+
+/**
+ * Text and keys from a POST /api/input body, in that order — `text` goes in
+ * as typed, `keys` are names from NAMED_KEYS or ctrl-<key>. Throws on bad input.
+ */
+export function inputFromBody(body: unknown): string {
+  const { text, keys } = (body ?? {}) as { text?: unknown; keys?: unknown };
+  if (text !== undefined && typeof text !== 'string') throw new Error('text must be a string');
+  if (keys !== undefined && (!Array.isArray(keys) || !keys.every(k => typeof k === 'string'))) throw new Error('keys must be an array of key names');
+  let data = text ?? '';
+  for (const name of (keys ?? []) as string[]) {
+    const seq = keySequence(name);
+    if (seq === null) throw new Error(`Unknown key "${name}" — use ${Object.keys(NAMED_KEYS).join(', ')} or ctrl-<letter>`);
+    data += seq;
+  }
+  if (!data) throw new Error('Nothing to send — give text, keys or both');
+  return data;
+}
+
+export const MAX_WAIT_PATTERN = 500;
+/** Longest POST /api/wait may block */
+export const MAX_WAIT_MS = 5 * 60 * 1000;
+export const DEFAULT_WAIT_MS = 30_000;
+
+/** The regex and timeout from a POST /api/wait body — throws on bad input */
+export function waitFromBody(body: unknown): { pattern: RegExp; timeoutMs: number } {
+  const { pattern, flags, timeoutMs } = (body ?? {}) as { pattern?: unknown; flags?: unknown; timeoutMs?: unknown };
+  if (typeof pattern !== 'string' || !pattern) throw new Error('pattern must be a non-empty string');
+  if (pattern.length > MAX_WAIT_PATTERN) throw new Error(`pattern must be at most ${MAX_WAIT_PATTERN} characters`);
+  if (flags !== undefined && (typeof flags !== 'string' || !/^[imsu]*$/.test(flags))) throw new Error('flags may only use i, m, s and u');
+  const timeout = timeoutMs ?? DEFAULT_WAIT_MS;
+  if (!Number.isInteger(timeout) || (timeout as number) < 0 || (timeout as number) > MAX_WAIT_MS) {
+    throw new Error(`timeoutMs must be an integer from 0 to ${MAX_WAIT_MS}`);
+  }
+  try {
+    return { pattern: new RegExp(pattern, (flags as string | undefined) ?? ''), timeoutMs: timeout as number };
+  } catch (err) {
+    throw new Error(`Invalid pattern: ${(err as Error).message}`);
+  }
+}
@@ -0,0 +1,2074 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import { execSync, execFileSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import http from 'node:http';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { IPty } from 'node-pty';
+import os from 'node:os';
+import { createRedactor, createSecretScanner, createStreamRedactor, type RedactorOptions, type StreamRedactor } from './redact.js';
+import { getSubprocessEnv } from './env.js';
+import { createTunnelProvider, splitCommandLine, type TunnelProvider, type HostedTunnel, type TunnelSession } from './tunnel.js';
+import { loadConfig, type Config, type LaunchProfile } from './config.js';
+import { createInputPolicy, createLineGate, type LineGate, type PolicyMatch } from './policy.js';
+import { createTriggerEngine, type TriggerConfig, type TriggerEvent } from './triggers.js';
+import { loadVapidKeys, createSubscriptionStore, isValidSubscription, sendPush, type VapidKeys } from './push.js';
+import { loadTotpSecret, createTotpGuard } from './totp.js';
+import { createRelayPool, type RelayState } from './relay.js';
+import { createMetrics, type Gauge } from './metrics.js';
+import { readSessionFiles, scanSessionFiles, mergeSessions, sessionAuthHeaders, type DiscoveredSession, type SessionFile } from './discovery.js';
+import { inputFromBody, waitFromBody } from './automation.js';
+import { BOLD, RESET, DIM, GREEN, YELLOW, loadQr } from './tty.js';
+import { createVirtualTerminal, type VirtualTerminal } from './vterm.js';
+import { createAuditLog } from './audit.js';
+import { daemonReadyLine, createAttachServer, startDaemon, listDaemonSessions, type AttachServer } from './daemon.js';
+import { createCastRecorder, limitIdle, type Cast, type CastEvent, type CastRecorder } from './asciicast.js';
+
+// ─── Bridge ─────────────────────────────────────────────────
+// One bridge is one HTTP + WebSocket server on 127.0.0.1, optionally behind a
+// tunnel. It runs a command in a PTY (a session), lists the sessions on this
+// machine (the hub), or serves a recording (playback). The CLI in index.ts
+// parses flags and wires up its own terminal; everything else lives here, so
+// other Node tools can embed a bridge:
+//
+//   const session = createTunnelSession({ command: 'copilot', config: { local: true } });
+//   session.on('output', ({ data }) => ...);
+//   const { url } = await session.start();
+
+export type ClientRole = 'owner' | 'viewer';
+
+export interface ClientInfo {
+  /** WebSocket connection id, as in the audit log */
+  id: string;
+  role: ClientRole;
+  address: string;
+}
+
+export interface HubEvents {
+  clientConnected: ClientInfo;
+  clientDisconnected: ClientInfo & { code: number };
+}
+
+export interface SessionEvents extends HubEvents {
+  /** Redacted output — of the command (ptyId 'main') or an extra PTY — as clients see it */
+  output: { ptyId: string; data: string };
+  /** Keystrokes from a remote client, redacted as in the audit log — `conn` is 'api' for POST /api/input */
+  input: { ptyId: string; data: string; src: string; conn: string };
+  /** The command exited — the bridge has stopped serving */
+  exit: { exitCode: number };
+}
+
+/** The terminal at this machine: it sees the raw output, answers input-policy questions and types ~ escapes */
+export interface LocalTerminal {
+  write(text: string): void;
+  /** Window size when the command starts — later changes go to resize() */
+  cols: number;
+  rows: number;
+}
+
+export interface BridgeInfo {
+  port: number;
+  /** http://127.0.0.1:<port> */
+  url: string;
+  tunnelUrl: string | null;
+}
+
+interface CommonOptions {
+  /** Top config layer, above ~/.cli-tunnel/config.json, .cli-tunnel.json and CLI_TUNNEL_* env vars */
+  config?: Partial<Config>;
+  /** Where the command runs and .cli-tunnel.json is looked up (default: process.cwd()) */
+  cwd?: string;
+  /** Session name shown in the dashboard */
+  name?: string;
+  /** Banner and notices, one call per line or block — nothing is printed without it */
+  log?: (text: string) => void;
+  /** Without one, input-policy confirmations are denied and the PTY size comes from clients or fixedSize */
+  terminal?: LocalTerminal;
+}
+
+export interface TunnelSessionOptions extends CommonOptions {
+  command: string;
+  args?: string[];
+  /** Record the redacted session to this asciicast file */
+  record?: string;
+  /** Runs after the bridge is reachable, before the command starts — the CLI waits for a key here */
+  beforeSpawn?: (info: BridgeInfo) => Promise<void>;
+  /** Run as a --daemon: local terminals attach over this socket instead of `terminal` */
+  daemon?: { id: string; socket: string };
+}
+
+export type HubOptions = CommonOptions;
+
+export interface PlaybackOptions extends CommonOptions {
+  cast: Cast;
+  /** Shown as the name when none is given */
+  file: string;
+  speed?: number;
+  /** Cap pauses between events to this many seconds */
+  idleLimit?: number;
+}
+
+export interface Bridge<Events> {
+  /** Public id stamped on audit records — never used for auth */
+  readonly sessionId: string;
+  /** The owner and viewer tokens — they change when rotated */
+  readonly token: string;
+  readonly viewerToken: string;
+  /** Listen, bring the tunnel up and — for a session — start the command */
+  start(): Promise<BridgeInfo>;
+  stop(): Promise<void>;
+  /** Keystrokes from the local terminal — ~ escapes and policy answers are handled, the rest goes to the command */
+  input(data: string): void;
+  /** Returns a function that removes the listener */
+  on<E extends keyof Events>(event: E, listener: (event: Events[E]) => void): () => void;
+}
+
+export interface BridgeSession extends Bridge<SessionEvents> {
+  /** The local terminal's window size — null when none is attached */
+  resize(size: { cols: number; rows: number } | null): void;
+}
+
+export type Hub = Bridge<HubEvents>;
+
+/** Run a command in a PTY and share it */
+export function createTunnelSession(options: TunnelSessionOptions): BridgeSession {
+  return createBridge(options);
+}
+
+/** The sessions dashboard — every session on this machine and the tunnel provider's list */
+export function createHub(options: HubOptions = {}): Hub {
+  return createBridge({ ...options, command: undefined });
+}
+
+/** Serve a recording to the remote UI, which plays it with seek and speed controls */
+export function createPlayback(options: PlaybackOptions): Hub {
+  const { cast, file, speed = 1, idleLimit = Infinity, ...rest } = options;
+  return createBridge({ ...rest, playback: { cast, file, speed, idleLimit } });
+}
+
+// Hub launches re-run the CLI — not whatever script embeds the bridge
+const CLI_SCRIPT = fileURLToPath(new URL('./index.js', import.meta.url));
+
+interface BridgeOptions extends CommonOptions, Partial<Omit<TunnelSessionOptions, keyof CommonOptions>> {
+  playback?: { cast: Cast; file: string; speed: number; idleLimit: number };
+}
+
+/** Layered config with `overrides` on top — throws with every problem found */
+function resolveConfig(cwd: string, overrides: Partial<Config> = {}): Config {
+  const loaded = loadConfig({ cwd, overrides: Object.entries(overrides).map(([key, value]) => ({ key, value, source: 'options' })) });
+  if (loaded.errors.length > 0) throw new Error(`Invalid configuration:\n${loaded.errors.join('\n')}`);
+  return loaded.config;
+}
+
+function createBridge(options: BridgeOptions): BridgeSession {
+  const cwd = options.cwd ?? process.cwd();
+  const config = resolveConfig(cwd, options.config);
+  const log = options.log ?? (() => {});
+
+  // Built-in secret patterns plus any custom rules, allowlist and entropy detection from config
+  const redactionOptions: RedactorOptions = {
+    rules: config.redactionRules,
+    allowlist: config.redactionAllowlist,
+    entropy: config.redactionEntropy,
+    entropyMinLength: config.redactionEntropyMinLength,
+  };
+  const redactSecrets = createRedactor(redactionOptions);
+
+  const auditDir = path.join(os.homedir(), '.cli-tunnel', 'audit');
+  const totpFile = path.join(os.homedir(), '.cli-tunnel', 'totp.json');
+  const sessionsDir = path.join(os.homedir(), '.cli-tunnel', 'sessions');
+  const daemonsDir = path.join(os.homedir(), '.cli-tunnel', 'daemons');
+
+  const port = config.port;
+  const sessionName = options.name ?? '';
+  const recordPath = options.record ? path.resolve(cwd, options.record) : null;
+
+  // ─── Playback ───────────────────────────────────────────────
+  // Served recordings go through the redactor again — casts from other tools were never redacted
+  const playback = options.playback ? {
+    cast: {
+      header: options.playback.cast.header,
+      events: limitIdle(options.playback.cast.events, options.playback.idleLimit)
+        .map(([t, code, data]): CastEvent => [t, code, code === 'o' ? redactSecrets(data) : data]),
+    },
+    speed: options.playback.speed,
+    file: options.playback.file,
+  } : null;
+
+  // ─── Tunnel provider ────────────────────────────────────────
+  const providerName = config.provider;
+  const hasTunnel = !config.local && providerName !== 'local';
+  const tunnelProvider: TunnelProvider = createTunnelProvider(providerName, {
+    sshTarget: config.sshTarget || undefined,
+    sshRemotePort: config.sshRemotePort,
+    publicUrl: config.publicUrl || undefined,
+    tunnelCommand: config.tunnelCommand || undefined,
+  });
+
+  // Hub mode — no command, just show sessions dashboard
+  const hubMode = !playback && !options.command;
+
+  const command = options.command ?? '';
+  const commandArgs = options.args ?? [];
+  const daemonSocket = options.daemon?.socket ?? null;
+
+  // ─── Events ─────────────────────────────────────────────────
+  const listeners: { [E in keyof SessionEvents]: Set<(event: SessionEvents[E]) => void> } = {
+    output: new Set(), input: new Set(), exit: new Set(), clientConnected: new Set(), clientDisconnected: new Set(),
+  };
+
+  function emit<E extends keyof SessionEvents>(event: E, payload: SessionEvents[E]): void {
+    for (const listener of listeners[event]) listener(payload);
+  }
+
+  // ─── Tunnel helpers ─────────────────────────────────────────
+  // Looked up once — the tunnel labels and the session file both want it
+  let gitInfo: { repo: string; branch: string } | null = null;
+  function getGitInfo(): { repo: string; branch: string } {
+    if (gitInfo) return gitInfo;
+    try {
+      const remote = execSync('git remote get-url origin', { cwd, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() }).trim();
+      const repo = remote.split('/').pop()?.replace('.git', '') || 'unknown';
+      const branch = execSync('git branch --show-current', { cwd, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() }).trim() || 'unknown';
+      gitInfo = { repo, branch };
+    } catch {
+      gitInfo = { repo: path.basename(cwd), branch: 'unknown' };
+    }
+    return gitInfo;
+  }
+
+  // ─── Security: Session token for WebSocket auth ────────────
+  // Both tokens can be replaced while running — see rotateTokens()
+  let sessionToken = crypto.randomUUID();
+  // Public id for this bridge process — stamped on audit records, never used for auth
+  const sessionId = options.daemon?.id || crypto.randomBytes(4).toString('hex');
+  // Read-only viewer token — can watch the terminal but never type into it
+  let viewerToken = crypto.randomUUID();
+
+  function tokenRole(token: string | null | undefined): ClientRole | null {
+    if (token === sessionToken) return 'owner';
+    if (token === viewerToken) return 'viewer';
+    return null;
+  }
+
+  // ─── Security: TOTP second factor ──────────────────────────
+  // After `cli-tunnel totp setup`, ticket requests need a current code in the
+  // X-TOTP-Code header as well as a token or pairing cookie — see src/totp.ts
+  const totpSecret = loadTotpSecret(totpFile);
+  const totpGuard = totpSecret ? createTotpGuard(totpSecret) : null;
+  // The hub's own ticket requests to local sessions carry this instead of a code.
+  // It is only in the session file (owner-only), never in a URL.
+  const localKey = crypto.randomBytes(32).toString('base64url');
+
+  const TOTP_ERRORS: Record<string, string> = {
+    required: 'Authenticator code required',
+    invalid: 'Wrong authenticator code',
+    replayed: 'That code was already used — wait for the next one',
+  };
+
+  /**
+   * Who the TOTP guard counts a request against — the token or pairing cookie
+   * it authenticated with, hashed. A pairing cookie belongs to one browser, so
+   * only it is a device that may skip the code for a while.
+   */
+  function totpClient(req: http.IncomingMessage): { id: string; device: boolean } {
+    const auth = req.headers.authorization?.replace('Bearer ', '') || new URL(req.url ?? '/', 'http://localhost').searchParams.get('token');
+    const device = !tokenRole(auth);
+    const credential = device ? `cookie:${authCookie(req) ?? ''}` : `token:${auth}`;
+    return { id: crypto.createHash('sha256').update(credential).digest('hex').slice(0, 32), device };
+  }
+
+  /** Second factor for the ticket endpoints — answers the request itself and returns false when it fails */
+  function checkTotp(req: http.IncomingMessage, res: http.ServerResponse, clientIp: string): boolean {
+    if (!totpGuard || req.headers['x-local-key'] === localKey) return true;
+    const header = req.headers['x-totp-code'];
+    const client = totpClient(req);
+    const check = totpGuard.check(client.id, typeof header === 'string' ? header.replace(/\s/g, '') : undefined, client.device);
+    if (check.result === 'ok') return true;
+    if (check.result !== 'required') auditLog.write({ src: clientIp, type: 'rejected', reason: `totp-${check.result}` });
+    if (check.lockedNow) auditLog.write({ src: clientIp, type: 'rejected', reason: 'totp-lockout', retryAfter: check.retryAfter });
+    if (check.result === 'locked' || check.lockedNow) {
+      res.writeHead(429, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff', 'Retry-After': String(check.retryAfter) });
+      res.end(JSON.stringify({ error: `Too many wrong codes — try again in ${Math.ceil(check.retryAfter! / 60)} min`, totp: 'locked', retryAfter: check.retryAfter }));
+      return false;
+    }
+    res.writeHead(401, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+    res.end(JSON.stringify({ error: TOTP_ERRORS[check.result], totp: check.result }));
+    return false;
+  }
+
+  // ─── Session file registry (IPC via filesystem) ────────────
+  let sessionFilePath: string | null = null;
+  // Kept so a token rotation can rewrite the file
+  let sessionFileArgs: [string, string, number] | null = null;
+
+  function writeSessionFile(tunnelId: string, tunnelUrl: string, port: number): void {
+    sessionFilePath = path.join(sessionsDir, `${tunnelId}.json`);
+    sessionFileArgs = [tunnelId, tunnelUrl, port];
+    const data = JSON.stringify({
+      token: sessionToken, localKey, name: sessionName || command, sessionId,
+      tunnelId, tunnelUrl, port, hubMode, provider: tunnelProvider.name,
+      machine: os.hostname(), ...getGitInfo(), pid: process.pid,
+      ...(daemonSocket ? { socket: daemonSocket } : {}),
+      createdAt: new Date().toISOString(),
+    });
+    fs.writeFileSync(sessionFilePath, data, { mode: 0o600 });
+  }
+
+  function removeSessionFile(): void {
+    if (sessionFilePath) { try { fs.unlinkSync(sessionFilePath); } catch {} }
+  }
+
+  function readLocalSessions(): SessionFile[] {
+    return readSessionFiles(sessionsDir).filter(s => !s.hubMode);
+  }
+
+  // ─── F-18: Session TTL (default 4 hours) ───────────────────
+  // The deadline moves when the session is extended (POST /api/session/extend, ~e locally)
+  const SESSION_TTL = config.sessionTtlMinutes * 60 * 1000;
+  const SESSION_WARN = config.sessionWarnMinutes * 60 * 1000;
+  // Extending never sets the deadline further out than the longest configurable TTL
+  const MAX_SESSION_TTL = 7 * 24 * 60 * 60 * 1000;
+  let sessionExpiresAt = Date.now() + SESSION_TTL;
+  const sessionExpired = () => Date.now() > sessionExpiresAt;
+
+  // ─── F-02: One-time ticket store for WebSocket auth ────────
+  const tickets = new Map<string, { expires: number; role: ClientRole }>();
+
+  // ─── Pairing codes ─────────────────────────────────────────
+  // Unless --token-url is given, the banner shows short one-time codes instead of
+  // token URLs. A browser that sends one to POST /api/auth/pair gets an HttpOnly
+  // cookie that stands in for the token until the session expires or the tokens
+  // are rotated, so the token never lands in history, screenshots or proxy logs.
+  const PAIR_CODE_TTL = 5 * 60 * 1000;
+  // No 0/O, 1/I/L — the code is read off a screen and typed on a phone
+  const PAIR_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  const PAIR_ATTEMPTS_PER_MINUTE = 5;
+  // Wrong codes from anywhere before the current codes are thrown away
+  const MAX_PAIR_FAILURES = 10;
+  // Cookies ignore the port — the session id keeps two local bridges apart
+  const AUTH_COOKIE = `cli_tunnel_${sessionId}`;
+  let pairCodes = new Map<string, { role: ClientRole; expires: number }>();
+  let pairFailures = 0;
+  const pairedCookies = new Map<string, ClientRole>(); // cookie value → role
+
+  function newPairCode(): string {
+    let code = '';
+    for (let i = 0; i < 8; i++) code += PAIR_ALPHABET[crypto.randomInt(PAIR_ALPHABET.length)];
+    return code;
+  }
+
+  /** Replace the owner and viewer codes — earlier ones stop working */
+  function issuePairCodes(): { owner: string; viewer: string } {
+    const expires = Date.now() + PAIR_CODE_TTL;
+    const codes = { owner: newPairCode(), viewer: newPairCode() };
+    pairCodes = new Map([[codes.owner, { role: 'owner', expires }], [codes.viewer, { role: 'viewer', expires }]]);
+    pairFailures = 0;
+    return codes;
+  }
+
+  function pairingText(codes: { owner: string; viewer: string }): string {
+    const show = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`;
+    return `  ${BOLD}Pairing code:${RESET} ${BOLD}${show(codes.owner)}${RESET} ${DIM}(one use, valid ${PAIR_CODE_TTL / 60000} min — ~p for new codes)${RESET}\n`
+      + `  ${DIM}Viewer code:${RESET}  ${show(codes.viewer)} ${DIM}(read-only)${RESET}\n`;
+  }
+
+  /** Trade a code for a role — null when it is wrong, used or expired */
+  function redeemPairCode(input: string): ClientRole | null {
+    const code = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const entry = pairCodes.get(code);
+    if (entry && entry.expires > Date.now()) {
+      pairCodes.delete(code); // Single use
+      return entry.role;
+    }
+    if (++pairFailures >= MAX_PAIR_FAILURES && pairCodes.size > 0) {
+      pairCodes.clear();
+      announce(`\n${YELLOW}⚠ Too many wrong pairing codes — the current codes no longer work.${RESET} Type ~p at the start of a line for new ones.\n`);
+    }
+    return null;
+  }
+
+  function authCookie(req: http.IncomingMessage): string | null {
+    for (const part of (req.headers.cookie ?? '').split(';')) {
+      const eq = part.indexOf('=');
+      if (eq !== -1 && part.slice(0, eq).trim() === AUTH_COOKIE) return part.slice(eq + 1).trim();
+    }
+    return null;
+  }
+
+  function cookieRole(req: http.IncomingMessage): ClientRole | null {
+    const cookie = authCookie(req);
+    return cookie === null ? null : pairedCookies.get(cookie) ?? null;
+  }
+
+  // ─── Bridge server ──────────────────────────────────────────
+  const connections = new Map<string, WebSocket>();
+  interface ClientState {
+    role: ClientRole;
+    remoteAddress: string;
+    /** Answered the last heartbeat ping */
+    isAlive: boolean;
+    /** Live output held back while the client's snapshots are taken — see sendSnapshots */
+    pending?: string[];
+  }
+  const clientStates = new WeakMap<WebSocket, ClientState>();
+  // The role of the ticket a WebSocket upgrade redeemed, for the connection handler
+  const ticketRoles = new WeakMap<http.IncomingMessage, ClientRole>();
+  // Counters for GET /metrics — kept whether or not it is enabled, they are cheap
+  const metrics = createMetrics();
+  // Hub relay: WS connections from hub to local sessions (for grid view), shared
+  // by every hub client watching the same session — see src/relay.ts
+  const relayPool = createRelayPool({
+    async ticket(port) {
+      const session = readLocalSessions().find(s => s.port === port);
+      if (!session) return null;
+      const ticketResp = await fetch(`http://127.0.0.1:${port}/api/auth/ticket`, {
+        method: 'POST',
+        headers: sessionAuthHeaders(session),
+        signal: AbortSignal.timeout(3000),
+      });
+      if (!ticketResp.ok) throw new Error(`Ticket request failed (${ticketResp.status})`);
+      return ((await ticketResp.json()) as { ticket: string }).ticket;
+    },
+  });
+  // Hostnames of tunnels hosted by non-devtunnel providers — allowed as WS origins and in CSP
+  const tunnelHosts = new Set<string>();
+
+  // #10: Session TTL enforcement — warn clients before the deadline, close every connection at it
+  const CLOSE_EXPIRED = 4001;
+  const CLOSE_ROTATED = 4002;
+  let expiryTimers: Array<ReturnType<typeof setTimeout>> = [];
+
+  function expiryMessage(): string {
+    return JSON.stringify({ type: 'expiry', expiresAt: sessionExpiresAt, warning: SESSION_WARN > 0 && sessionExpiresAt - Date.now() <= SESSION_WARN });
+  }
+
+  function closeAllConnections(code: number, reason: string): void {
+    for (const [id, ws] of connections) {
+      ws.close(code, reason);
+      connections.delete(id);
+    }
+  }
+
+  function scheduleExpiry(): void {
+    for (const timer of expiryTimers) clearTimeout(timer);
+    const left = sessionExpiresAt - Date.now();
+    expiryTimers = [setTimeout(() => {
+      closeAllConnections(CLOSE_EXPIRED, 'Session expired');
+      tickets.clear();
+      writeLocal(`\r\n${YELLOW}⚠ cli-tunnel session expired — remote access is closed.${RESET} Type ~e at the start of a line to extend it.\r\n`);
+    }, Math.max(0, left))];
+    if (SESSION_WARN > 0) {
+      expiryTimers.push(setTimeout(() => {
+        sendToClients(expiryMessage());
+        const minutes = Math.max(1, Math.round((sessionExpiresAt - Date.now()) / 60000));
+        writeLocal(`\r\n${YELLOW}⚠ cli-tunnel session expires in ${minutes} min${RESET} — type ~e at the start of a line to extend it\r\n`);
+      }, Math.max(0, left - SESSION_WARN)));
+    }
+  }
+
+  /** Push the deadline out by `minutes` from whichever is later, now or the current deadline */
+  function extendSession(minutes: number, src: string): void {
+    const now = Date.now();
+    sessionExpiresAt = Math.min(Math.max(sessionExpiresAt, now) + minutes * 60000, now + MAX_SESSION_TTL);
+    scheduleExpiry();
+    sendToClients(expiryMessage());
+    auditLog.write({ src, type: 'session', action: 'extend', minutes, expiresAt: new Date(sessionExpiresAt).toISOString() });
+  }
+
+  /**
+   * Replace both tokens. Outstanding tickets die with them and every client
+   * connected with an old token is dropped — it has to come back with the new URL.
+   */
+  function rotateTokens(src: string): void {
+    sessionToken = crypto.randomUUID();
+    viewerToken = crypto.randomUUID();
+    tickets.clear();
+    pairedCookies.clear();
+    closeAllConnections(CLOSE_ROTATED, 'Token rotated');
+    // The hub reads session tokens from the session file
+    if (sessionFileArgs) writeSessionFile(...sessionFileArgs);
+    auditLog.write({ src, type: 'session', action: 'rotate' });
+    void announceAccess('Tokens rotated — earlier URLs, codes and paired browsers no longer work');
+  }
+
+  // ─── F-8: Per-IP rate limiter ───────────────────────────────
+  const rateLimits = new Map<string, { count: number; resetAt: number }>();
+  const ticketRateLimits = new Map<string, { count: number; resetAt: number }>();
+  const pairRateLimits = new Map<string, { count: number; resetAt: number }>();
+
+  function checkRateLimit(ip: string, map: Map<string, { count: number; resetAt: number }>, maxRequests: number): boolean {
+    const now = Date.now();
+    const entry = map.get(ip);
+    if (!entry || entry.resetAt < now) {
+      map.set(ip, { count: 1, resetAt: now + 60000 });
+      return true;
+    }
+    entry.count++;
+    return entry.count <= maxRequests;
+  }
+
+  // ─── Hub: launch sessions from profiles ────────────────────
+  // POST /api/sessions { profile } starts a background session (see src/daemon.ts)
+  // from a launchProfiles entry. Launched sessions outlive the hub; it keeps
+  // their PIDs so the dashboard can list and stop them.
+  interface LaunchedSession {
+    id: string;
+    name: string;
+    pid: number;
+    port: number;
+    cwd: string;
+    startedAt: string;
+  }
+  const launchedSessions = new Map<string, LaunchedSession>();
+
+  function isAlive(pid: number): boolean {
+    try { process.kill(pid, 0); return true; } catch { return false; }
+  }
+
+  async function launchSession(profile: LaunchProfile): Promise<LaunchedSession> {
+    const dir = !profile.cwd ? cwd : profile.cwd.startsWith('~/') ? path.join(os.homedir(), profile.cwd.slice(2)) : profile.cwd;
+    if (!fs.statSync(dir, { throwIfNoEntry: false })?.isDirectory()) throw new Error(`cwd ${dir} is not a directory`);
+    const id = crypto.randomBytes(4).toString('hex');
+    // Launched sessions are local-only — the phone reaches them through this hub's grid relay
+    const started = await startDaemon({
+      argv: [CLI_SCRIPT, '--local', '--name', profile.name, '--', profile.command, ...(profile.args ?? [])],
+      dir: daemonsDir, id, cwd: dir, timeoutMs: 30000,
+    });
+    const daemon = listDaemonSessions(sessionsDir).find(d => d.sessionId === id);
+    if (!daemon) throw new Error('Session started but did not register');
+    const launched = { id, name: profile.name, pid: started.pid, port: daemon.port, cwd: dir, startedAt: new Date().toISOString() };
+    launchedSessions.set(id, launched);
+    return launched;
+  }
+
+  function readJsonBody(req: http.IncomingMessage, limit = 16384): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+        if (body.length > limit) { reject(new Error('Request body too large')); req.destroy(); }
+      });
+      req.on('end', () => {
+        try { resolve(JSON.parse(body || '{}')); } catch { reject(new Error('Invalid JSON body')); }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  /** One field of a parsed JSON body — undefined when the body is not an object */
+  function bodyField(body: unknown, key: string): unknown {
+    return typeof body === 'object' && body !== null ? (body as Record<string, unknown>)[key] : undefined;
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const clientIp = req.socket.remoteAddress || 'unknown';
+    // Prometheus scrape endpoint — only with `metrics: true`, otherwise a 404 like any missing file
+    const isMetrics = config.metrics && req.url?.split('?')[0] === '/metrics';
+
+    // F-8: Rate limiting for HTTP endpoints
+    if (req.url?.startsWith('/api/') || isMetrics) {
+      const isTicket = req.url === '/api/auth/ticket';
+      const isPair = req.url === '/api/auth/pair' && req.method === 'POST';
+      if (isTicket) {
+        if (!checkRateLimit(clientIp, ticketRateLimits, config.ticketRateLimit)) {
+          metrics.inc('rate_limited_total', 1, 'ticket');
+          res.writeHead(429, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Too Many Requests' }));
+          return;
+        }
+      } else if (isPair) {
+        if (!checkRateLimit(clientIp, pairRateLimits, PAIR_ATTEMPTS_PER_MINUTE)) {
+          metrics.inc('rate_limited_total', 1, 'pair');
+          res.writeHead(429, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Too Many Requests' }));
+          return;
+        }
+      } else {
+        if (!checkRateLimit(clientIp, rateLimits, config.apiRateLimit)) {
+          metrics.inc('rate_limited_total', 1, 'api');
+          res.writeHead(429, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Too Many Requests' }));
+          return;
+        }
+      }
+    }
+    // F-18: Session expiry check for API routes
+    if (!hubMode && req.url?.startsWith('/api/') && sessionExpired()) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Session expired' }));
+      return;
+    }
+
+    // F-02: Ticket endpoint — exchange session token (or pairing cookie) for one-time WS ticket
+    if (req.url === '/api/auth/ticket' && req.method === 'POST') {
+      const auth = req.headers.authorization?.replace('Bearer ', '');
+      const role = tokenRole(auth) ?? cookieRole(req);
+      if (!role) { res.writeHead(401); res.end(); return; }
+      if (!checkTotp(req, res, clientIp)) return;
+      const ticket = crypto.randomUUID();
+      const expiresAt = Date.now() + 60000;
+      tickets.set(ticket, { expires: expiresAt, role });
+      metrics.inc('tickets_issued_total');
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ticket, expires: expiresAt, role }));
+      return;
+    }
+
+    // Pairing — a code from the banner buys a cookie; GET tells the UI whether it already has one
+    if (req.url === '/api/auth/pair' && req.method === 'GET') {
+      const role = cookieRole(req);
+      res.writeHead(role ? 200 : 401, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+      res.end(JSON.stringify(role ? { role } : { error: 'Not paired' }));
+      return;
+    }
+    if (req.url === '/api/auth/pair' && req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req, 1024);
+      } catch (err) {
+        res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: (err as Error).message }));
+        return;
+      }
+      const code = bodyField(body, 'code');
+      const role = typeof code === 'string' ? redeemPairCode(code) : null;
+      if (!role) {
+        auditLog.write({ src: clientIp, type: 'rejected', reason: 'pair-code' });
+        res.writeHead(401, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: 'Invalid or expired code' }));
+        return;
+      }
+      const cookie = crypto.randomBytes(32).toString('base64url');
+      pairedCookies.set(cookie, role);
+      auditLog.write({ src: clientIp, type: 'pair', role });
+      announce(`\n${GREEN}✓${RESET} Paired ${clientIp} as ${role}\n`);
+      res.writeHead(200, {
+        ...{ 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' },
+        'Set-Cookie': `${AUTH_COOKIE}=${cookie}; HttpOnly; Secure; SameSite=Strict; Path=/; Max-Age=${MAX_SESSION_TTL / 1000}`,
+      });
+      res.end(JSON.stringify({ role }));
+      return;
+    }
+
+    // F-01: Session token check for all API routes
+    let requestRole: ClientRole | null = null;
+    if (req.url?.startsWith('/api/')) {
+      const reqUrl = new URL(req.url, `http://${req.headers.host}`);
+      const authToken = req.headers.authorization?.replace('Bearer ', '') || reqUrl.searchParams.get('token');
+      const role = tokenRole(authToken) ?? cookieRole(req);
+      requestRole = role;
+      // Viewers may list sessions, fetch a served recording and watch the screen — everything else needs the owner token
+      const viewerAllowed = role === 'viewer' && (
+        (req.method === 'GET' && ['/api/sessions', '/api/cast', '/api/screen', '/api/status'].includes(reqUrl.pathname)) ||
+        (req.method === 'POST' && reqUrl.pathname === '/api/wait'));
+      if (role !== 'owner' && !viewerAllowed) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Unauthorized' }));
+        return;
+      }
+    }
+
+    // A scraper has no cookie or ticket — the owner token as a Bearer header, nothing else
+    if (isMetrics && req.method === 'GET') {
+      const role = tokenRole(req.headers.authorization?.replace('Bearer ', ''));
+      if (role !== 'owner' || (!hubMode && sessionExpired())) {
+        res.writeHead(401, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: 'Unauthorized' }));
+        return;
+      }
+      const text = metrics.render(await metricGauges());
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8', 'X-Content-Type-Options': 'nosniff', 'Cache-Control': 'no-store' });
+      res.end(text);
+      return;
+    }
+
+    // Hub ticket proxy — fetch ticket from local session on behalf of grid client
+    // F-03: Only hub mode sessions can use this endpoint (hub token already validated above)
+    if (hubMode && req.url?.startsWith('/api/proxy/ticket/') && req.method === 'POST') {
+      const ticketPathMatch = req.url?.match(/^\/api\/proxy\/ticket\/(\d+)$/);
+      if (!ticketPathMatch) { res.writeHead(400, { 'Content-Type': 'application/json' }); res.end(JSON.stringify({ error: 'Invalid port' })); return; }
+      const targetPort = parseInt(ticketPathMatch[1], 10);
+      if (!Number.isFinite(targetPort) || targetPort < 1 || targetPort > 65535) {
+        res.writeHead(400, { 'Content-Type': 'application/json' }); res.end(JSON.stringify({ error: 'Invalid port' })); return;
+      }
+      if (!checkTotp(req, res, clientIp)) return;
+      // Find token for this port from session files
+      const localSessions = readLocalSessions();
+      const session = localSessions.find(s => s.port === targetPort);
+      if (!session) { res.writeHead(404, { 'Content-Type': 'application/json' }); res.end(JSON.stringify({ error: 'Session not found' })); return; }
+      try {
+        const ticketResp = await fetch(`http://127.0.0.1:${targetPort}/api/auth/ticket`, {
+          method: 'POST', headers: sessionAuthHeaders(session),
+          signal: AbortSignal.timeout(3000),
+        });
+        if (!ticketResp.ok) throw new Error('Ticket request failed');
+        const ticketData = await ticketResp.json() as { ticket: string };
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ticket: ticketData.ticket, port: targetPort }));
+      } catch {
+        res.writeHead(502, { 'Content-Type': 'application/json' }); res.end(JSON.stringify({ error: 'Session unreachable' })); return;
+      }
+      return;
+    }
+
+    // Recording playback (cli-tunnel play --serve) — the UI fetches the whole cast and plays it client-side
+    if (playback && req.url?.split('?')[0] === '/api/cast' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff', 'Cache-Control': 'no-store' });
+      res.end(JSON.stringify({ ...playback.cast, speed: playback.speed, name: sessionName || playback.file }));
+      return;
+    }
+
+    // Session lifetime — push the deadline out, or replace the tokens
+    if (req.url === '/api/session/extend' && req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: (err as Error).message }));
+        return;
+      }
+      const minutes = bodyField(body, 'minutes') ?? config.sessionTtlMinutes;
+      if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SESSION_TTL / 60000) {
+        res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: `minutes must be an integer from 1 to ${MAX_SESSION_TTL / 60000}` }));
+        return;
+      }
+      extendSession(minutes, clientIp);
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+      res.end(JSON.stringify({ expiresAt: sessionExpiresAt }));
+      return;
+    }
+    if (req.url === '/api/session/rotate' && req.method === 'POST') {
+      rotateTokens(clientIp);
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+      res.end(JSON.stringify({ token: sessionToken, viewerToken }));
+      return;
+    }
+
+    // Automation API — the screen, status, input and waiting for output, for scripts
+    const apiPath = req.url?.split('?')[0];
+    if (!hubMode && !playback && apiPath === '/api/status' && req.method === 'GET') {
+      auditLog.write({ src: clientIp, type: 'api', path: apiPath, role: requestRole });
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff', 'Cache-Control': 'no-store' });
+      res.end(JSON.stringify(statusReport()));
+      return;
+    }
+    if (!hubMode && !playback && apiPath === '/api/screen' && req.method === 'GET') {
+      const params = new URL(req.url!, 'http://localhost').searchParams;
+      const format = params.get('format') ?? 'text';
+      const ptyId = params.get('ptyId') ?? MAIN_PTY;
+      const screen = screenFor(ptyId);
+      if (format !== 'text' && format !== 'ansi') {
+        res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: 'format must be text or ansi' }));
+        return;
+      }
+      if (!screen && ptyId !== MAIN_PTY) {
+        res.writeHead(404, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: 'No such PTY' }));
+        return;
+      }
+      auditLog.write({ src: clientIp, type: 'api', path: apiPath, role: requestRole, format });
+      const send = (body: string) => {
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff', 'Cache-Control': 'no-store' });
+        res.end(body);
+      };
+      // The command is still starting — nothing on screen yet
+      if (!screen) send('');
+      else if (format === 'ansi') screen.snapshot((snap) => send(snap.data));
+      else screen.text(send);
+      return;
+    }
+    if (!hubMode && !playback && apiPath === '/api/input' && req.method === 'POST') {
+      let body: unknown;
+      let data: string;
+      try {
+        body = await readJsonBody(req);
+        data = inputFromBody(body);
+      } catch (err) {
+        res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: (err as Error).message }));
+        return;
+      }
+      const requested = bodyField(body, 'ptyId');
+      const ptyId = requested === undefined ? MAIN_PTY : String(requested);
+      const target = ptyId === MAIN_PTY ? ptyProcess : extraPtys.get(ptyId)?.proc;
+      if (!target) {
+        res.writeHead(404, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: 'No such PTY, or it has exited' }));
+        return;
+      }
+      if (config.inputPolicy) {
+        const gate = apiGate(clientIp, ptyId);
+        if (!gate.write(data)) {
+          auditLog.write({ src: clientIp, conn: 'api', ptyId, type: 'rejected', reason: 'policy-queue-full' });
+          res.writeHead(429, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+          res.end(JSON.stringify({ error: 'Input is queued behind a held line — try again later' }));
+          return;
+        }
+        // A line matched a rule — it runs only if the local terminal allows it, which the audit log records
+        if (gate.isHeld()) {
+          res.writeHead(202, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+          res.end(JSON.stringify({ held: true }));
+          return;
+        }
+      } else {
+        writeRemoteInput(ptyId, { src: clientIp, conn: 'api' }, data);
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+      res.end(JSON.stringify({ written: data.length }));
+      return;
+    }
+    if (!hubMode && !playback && apiPath === '/api/wait' && req.method === 'POST') {
+      let body: unknown;
+      let wait: ReturnType<typeof waitFromBody>;
+      try {
+        body = await readJsonBody(req);
+        wait = waitFromBody(body);
+      } catch (err) {
+        res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: (err as Error).message }));
+        return;
+      }
+      const requested = bodyField(body, 'ptyId');
+      const ptyId = requested === undefined ? MAIN_PTY : String(requested);
+      // A script may start waiting before the main PTY has spawned
+      if (ptyId !== MAIN_PTY && !screenFor(ptyId)) {
+        res.writeHead(404, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: 'No such PTY' }));
+        return;
+      }
+      if (screenWatchers.size >= MAX_SCREEN_WATCHERS) {
+        res.writeHead(429, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: `At most ${MAX_SCREEN_WATCHERS} waits at a time` }));
+        return;
+      }
+      auditLog.write({ src: clientIp, type: 'api', path: apiPath, role: requestRole, pattern: redactSecrets(wait.pattern.source), timeoutMs: wait.timeoutMs });
+      const pending = waitForScreen(ptyId, wait.pattern, wait.timeoutMs);
+      let gone = false;
+      res.on('close', () => { gone = true; pending.cancel(); });
+      const { match, text } = await pending.result;
+      if (gone) return;
+      // 408 on timeout, so curl --fail and friends treat it as an error
+      res.writeHead(match ? 200 : 408, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+      res.end(JSON.stringify(match ? { matched: true, match: match[0], groups: match.slice(1), screen: text } : { matched: false, screen: text }));
+      return;
+    }
+
+    // Web Push — the remote UI subscribes with the key from GET /api/push/key
+    if (req.url === '/api/push/key' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+      res.end(JSON.stringify({ publicKey: getVapidKeys().publicKey }));
+      return;
+    }
+    if (req.url === '/api/push/subscribe' && (req.method === 'POST' || req.method === 'DELETE')) {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: (err as Error).message }));
+        return;
+      }
+      if (req.method === 'DELETE') {
+        const endpoint = bodyField(body, 'endpoint');
+        const removed = typeof endpoint === 'string' && pushSubscriptions.remove(endpoint);
+        res.writeHead(removed ? 200 : 404, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify(removed ? { deleted: true } : { error: 'Subscription not found' }));
+        return;
+      }
+      if (!isValidSubscription(body)) {
+        res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: 'Invalid push subscription' }));
+        return;
+      }
+      pushSubscriptions.add(body);
+      auditLog.write({ src: clientIp, type: 'push_subscribe', endpoint: new URL(body.endpoint).origin });
+      res.writeHead(201, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+      res.end(JSON.stringify({ subscribed: true }));
+      return;
+    }
+
+    // Hub status — the grid relays and which hub clients hold them
+    if (hubMode && req.url === '/api/hub/status' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+      res.end(JSON.stringify({ clients: connections.size, relays: relayPool.status() }));
+      return;
+    }
+
+    // Sessions API — session files on this machine merged with the tunnel provider's list
+    if ((req.url === '/api/sessions' || req.url?.startsWith('/api/sessions?')) && req.method === 'GET') {
+      const localMachine = os.hostname();
+      // Sessions this hub launched are listed even when the tunnel CLI is unavailable
+      const launched: Array<DiscoveredSession & { hasToken: boolean; launched: boolean }> = [];
+      for (const l of launchedSessions.values()) {
+        if (!isAlive(l.pid)) { launchedSessions.delete(l.id); continue; }
+        launched.push({
+          id: l.id, tunnelId: l.id, name: l.name, port: l.port, url: '', machine: localMachine,
+          repo: path.basename(l.cwd), branch: '', online: true, hasToken: true, isLocal: true, source: 'file', launched: true,
+        });
+      }
+      // Launch profiles are only offered to the owner of a hub
+      const profiles = hubMode && requestRole === 'owner'
+        ? config.launchProfiles.map(p => ({ name: p.name, command: [p.command, ...(p.args ?? [])].join(' ') }))
+        : [];
+      // A missing or logged-out tunnel CLI only loses the remote entries
+      let tunnels: TunnelSession[] = [];
+      try { tunnels = tunnelProvider.list(); } catch {}
+      const local = hubMode ? (await scanSessionFiles(sessionsDir)).sessions : [];
+      const launchedPorts = new Set(launched.map(l => l.port));
+      const sessions = mergeSessions(local, tunnels, localMachine)
+        // A launched session also writes a file — its launched entry is the one that can be stopped
+        .filter(s => !(s.source === 'file' && launchedPorts.has(s.port)))
+        // F-05: Never expose raw tokens in API responses — only indicate availability
+        .map(s => (s.source === 'tunnel' ? s : { ...s, hasToken: true }));
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+      res.end(JSON.stringify({ sessions: [...sessions, ...launched], profiles }));
+      return;
+    }
+
+    // Launch a new session from a profile (hub only)
+    if (hubMode && req.url === '/api/sessions' && req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: (err as Error).message }));
+        return;
+      }
+      // Later config layers win when two profiles share a name
+      const name = bodyField(body, 'profile');
+      const profile = [...config.launchProfiles].reverse().find(p => p.name === name);
+      if (!profile) {
+        res.writeHead(404, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: `Unknown launch profile "${String(name ?? '')}"` }));
+        return;
+      }
+      try {
+        const launched = await launchSession(profile);
+        auditLog.write({ src: clientIp, type: 'session_launch', profile: profile.name, launchedId: launched.id, pid: launched.pid, port: launched.port });
+        res.writeHead(201, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ id: launched.id, name: launched.name, port: launched.port, pid: launched.pid }));
+      } catch (err) {
+        auditLog.write({ src: clientIp, type: 'rejected', reason: 'launch-failed', profile: profile.name });
+        res.writeHead(500, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: (err as Error).message.split('\n')[0] }));
+      }
+      return;
+    }
+
+    // Delete session
+    // F-05: Only allow deleting tunnels owned by this machine
+    if (req.url?.startsWith('/api/sessions/') && req.method === 'DELETE') {
+      const tunnelId = req.url.replace('/api/sessions/', '').replace(/\.\w+$/, '');
+      if (!/^[a-zA-Z0-9._-]+$/.test(tunnelId)) {
+        res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: 'Invalid tunnel ID' }));
+        return;
+      }
+      // Sessions this hub launched are stopped, not deleted as tunnels
+      const launched = hubMode ? launchedSessions.get(tunnelId) : undefined;
+      if (launched) {
+        try { process.kill(launched.pid, 'SIGTERM'); } catch {}
+        launchedSessions.delete(launched.id);
+        auditLog.write({ src: clientIp, type: 'session_stop', launchedId: launched.id, pid: launched.pid });
+        res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ deleted: true }));
+        return;
+      }
+      // Verify the tunnel belongs to this machine before allowing delete
+      // If we can't verify ownership, deny the delete
+      if (!tunnelProvider.isOwnedByThisMachine(tunnelId)) {
+        res.writeHead(403, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+        res.end(JSON.stringify({ error: 'Cannot verify tunnel ownership' }));
+        return;
+      }
+      const deleted = tunnelProvider.delete(tunnelId);
+      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
+      res.end(JSON.stringify({ deleted }));
+      return;
+    }
+
+    // Static files
+    const uiDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../remote-ui');
+    // #18: Guard against malformed URI encoding
+    let decodedUrl: string;
+    try {
+      // Strip query string before resolving file path
+      const urlPath = (req.url || '/').split('?')[0]!;
+      decodedUrl = decodeURIComponent(urlPath);
+    } catch {
+      res.writeHead(400); res.end(); return;
+    }
+    if (decodedUrl.includes('..')) { res.writeHead(400); res.end(); return; }
+    let filePath = path.resolve(uiDir, decodedUrl === '/' ? 'index.html' : decodedUrl.replace(/^\//, ''));
+    if (!filePath.startsWith(uiDir)) { res.writeHead(403); res.end(); return; }
+    // #2: EISDIR guard — check if path is a directory before createReadStream
+    try {
+      const stat = fs.statSync(filePath);
+      if (stat.isDirectory()) {
+        filePath = path.join(filePath, 'index.html');
+        if (!fs.existsSync(filePath)) { res.writeHead(404); res.end(); return; }
+      }
+    } catch { res.writeHead(404); res.end(); return; }
+    const ext = path.extname(filePath);
+    const mimes: Record<string, string> = { '.html': 'text/html', '.js': 'application/javascript', '.css': 'text/css', '.json': 'application/json' };
+    const securityHeaders: Record<string, string> = {
+      'Content-Type': mimes[ext] || 'application/octet-stream',
+      'X-Frame-Options': 'DENY',
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': `default-src 'self'; script-src 'self' https://cdn.jsdelivr.net/npm/@xterm/xterm@5.5.0/ https://cdn.jsdelivr.net/npm/@xterm/addon-fit@0.10.0/; style-src 'self' 'unsafe-inline' https://cdn.jsdelivr.net/npm/@xterm/xterm@5.5.0/ https://cdn.jsdelivr.net/npm/@xterm/addon-fit@0.10.0/; connect-src 'self' ws://localhost:* ws://127.0.0.1:* wss://*.devtunnels.ms https://*.devtunnels.ms${[...tunnelHosts].map(h => ` wss://${h} https://${h}`).join('')};`,
+      'Referrer-Policy': 'no-referrer',
+      'Cache-Control': 'no-store',
+      'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+    };
+    res.writeHead(200, securityHeaders);
+    // #8: Handle createReadStream errors
+    const stream = fs.createReadStream(filePath);
+    stream.on('error', () => { if (!res.headersSent) { res.writeHead(500); } res.end(); });
+    stream.pipe(res);
+  });
+
+  const wss = new WebSocketServer({
+    server,
+    maxPayload: 1048576,
+    verifyClient: (info: { req: http.IncomingMessage }) => {
+
+      // F-18: Session expiry
+      if (sessionExpired()) return false;
+      // F-3: Validate origin when present (devtunnel proxies may strip it)
+      const origin = info.req.headers.origin;
+      if (origin) {
+        try {
+          const originUrl = new URL(origin);
+          const host = originUrl.hostname;
+          if (host !== 'localhost' && host !== '127.0.0.1' && !host.endsWith('.devtunnels.ms') && !tunnelHosts.has(host)) {
+            return false;
+          }
+        } catch { return false; }
+      }
+      const url = new URL(info.req.url!, `http://${info.req.headers.host}`);
+      // F-02: Accept one-time ticket (only auth method for WS)
+      const ticket = url.searchParams.get('ticket');
+      if (ticket && tickets.has(ticket)) {
+        const t = tickets.get(ticket)!;
+        tickets.delete(ticket); // Single use
+        ticketRoles.set(info.req, t.role);
+        if (t.expires > Date.now()) return true;
+        metrics.inc('tickets_expired_total');
+        return false;
+      }
+      return false;
+    },
+  });
+
+  // ─── Security: Audit log for remote PTY input ──────────────
+  // Hash-chained and rotated by date/size — see src/audit.ts
+  const auditLog = createAuditLog({
+    dir: auditDir,
+    maxBytes: config.auditMaxFileSizeMb * 1024 * 1024,
+    retentionDays: config.auditRetentionDays,
+    context: { session: sessionName || command || playback?.file || 'hub', sessionId },
+  });
+
+  // ─── Notifications: output triggers → webhook / Web Push ────
+  // Triggers watch the main PTY's redacted output (see src/triggers.ts). When
+  // one fires, a JSON event goes to webhookUrl and to every Web Push
+  // subscription on this machine (see src/push.ts).
+  const pushSubscriptions = createSubscriptionStore(path.join(os.homedir(), '.cli-tunnel', 'push-subscriptions.json'));
+  let vapidKeys: VapidKeys | null = null;
+  // Created on first use — most sessions never push
+  const getVapidKeys = () => (vapidKeys ??= loadVapidKeys(path.join(os.homedir(), '.cli-tunnel', 'vapid.json')));
+
+  async function notify(event: TriggerEvent, trigger: TriggerConfig): Promise<void> {
+    const channels = trigger.notify ?? ['webhook', 'push'];
+    const payload = JSON.stringify({ ...event, session: sessionName || command, sessionId, machine: os.hostname(), ts: new Date().toISOString() });
+    let webhook: string | undefined;
+    let pushed = 0;
+    const deliveries: Promise<void>[] = [];
+    if (channels.includes('webhook') && config.webhookUrl) {
+      deliveries.push(fetch(config.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'cli-tunnel' },
+        body: payload,
+        signal: AbortSignal.timeout(5000),
+      }).then((r) => { webhook = r.ok ? 'sent' : `failed-${r.status}`; }, () => { webhook = 'failed'; }));
+    }
+    if (channels.includes('push')) {
+      for (const sub of pushSubscriptions.list()) {
+        deliveries.push(sendPush(getVapidKeys(), sub, payload).then((result) => {
+          if (result === 'sent') pushed++;
+          // The browser dropped the subscription — stop sending to it
+          if (result === 'gone') pushSubscriptions.remove(sub.endpoint);
+        }));
+      }
+    }
+    await Promise.all(deliveries);
+    auditLog.write({ src: 'local', type: 'trigger', trigger: event.trigger, reason: event.reason, exitCode: event.exitCode, webhook, pushed });
+  }
+
+  const triggerEngine = createTriggerEngine(config.triggers, notify);
+
+  // ─── Security: Remote input policy ─────────────────────────
+  // Remote lines matching a deny rule are dropped; 'confirm' rules wait for y/n
+  // at the local terminal (an attached one, for a daemon) — see src/policy.ts
+  const inputPolicy = createInputPolicy(config.inputPolicyRules);
+  type ConfirmResult = 'allowed' | 'denied' | 'timeout' | 'no-terminal';
+  // Set while a question is on the local terminal — the next keypress answers it
+  let localConfirm: ((key: string) => void) | null = null;
+  let confirmQueue: Promise<unknown> = Promise.resolve();
+
+  /** Text for whoever sits at this machine — never sent to the PTY or remote clients */
+  function writeLocal(text: string): void {
+    if (options.daemon) attachServer?.output(text);
+    else options.terminal?.write(text);
+  }
+
+  /** Ask the local terminal whether a held remote line may run — one question at a time */
+  function confirmLocally(line: string, rule: string): Promise<ConfirmResult> {
+    const ask = () => new Promise<ConfirmResult>((resolve) => {
+      if (options.daemon ? !attachServer?.clients : !options.terminal) { resolve('no-terminal'); return; }
+      const finish = (result: ConfirmResult) => {
+        clearTimeout(timer);
+        localConfirm = null;
+        writeLocal(`${result === 'allowed' ? 'allowed' : result === 'timeout' ? 'denied (no answer)' : 'denied'}\r\n`);
+        resolve(result);
+      };
+      const timer = setTimeout(() => finish('timeout'), config.inputConfirmTimeoutSec * 1000);
+      localConfirm = (key) => finish(/^y/i.test(key) ? 'allowed' : 'denied');
+      writeLocal(`\r\n${YELLOW}⚠ Remote input held by rule ${rule}:${RESET} ${line.slice(0, 200)}\r\n  Allow it? [y/N] `);
+    });
+    const result = confirmQueue.then(ask);
+    confirmQueue = result;
+    return result;
+  }
+
+  /** A line gate for one remote source typing into one PTY — every decision is audited and passed to notify */
+  function createPolicyGate(ptyId: string, origin: { src: string; conn: string }, notify: (rule: string, decision: string) => void): LineGate {
+    const decide = async (line: string, match: PolicyMatch): Promise<boolean> => {
+      const entry = { src: origin.src, conn: origin.conn, ptyId, type: 'policy', rule: match.rule, data: redactSecrets(line) };
+      if (match.action === 'deny') {
+        auditLog.write({ ...entry, decision: 'denied', by: 'rule' });
+        notify(match.rule, 'denied');
+        return false;
+      }
+      auditLog.write({ ...entry, decision: 'held' });
+      notify(match.rule, 'held');
+      const result = await confirmLocally(line, match.rule);
+      const allowed = result === 'allowed';
+      auditLog.write({ ...entry, decision: allowed ? 'allowed' : 'denied', by: result === 'allowed' || result === 'denied' ? 'local' : result });
+      notify(match.rule, allowed ? 'allowed' : 'denied');
+      return allowed;
+    };
+    return createLineGate({
+      policy: inputPolicy,
+      forward: (data) => writeRemoteInput(ptyId, origin, data),
+      // Not the client's input — the policy record covers it
+      clear: (data) => (ptyId === MAIN_PTY ? ptyProcess : extraPtys.get(ptyId)?.proc)?.write(data),
+      decide,
+    });
+  }
+
+  /** Remote input that reaches a PTY — only what is written is audited as pty_input and emitted */
+  function writeRemoteInput(ptyId: string, origin: { src: string; conn: string }, data: string): void {
+    const target = ptyId === MAIN_PTY ? ptyProcess : extraPtys.get(ptyId)?.proc;
+    if (!target) return;
+    auditLog.write({ src: origin.src, conn: origin.conn, ptyId, type: 'pty_input', data: redactSecrets(data) });
+    target.write(data);
+    emit('input', { ptyId, data: redactSecrets(data), src: origin.src, conn: origin.conn });
+  }
+
+  // ─── Local escape keys ──────────────────────────────────────
+  // ssh-style: '~' at the start of a line, then a command key. Typed at the
+  // local terminal (or an attached one, for a daemon) and never sent to the PTY.
+  //   ~e  extend the session by sessionTtlMinutes     ~r  rotate the tokens
+  //   ~p  new pairing codes                           ~?  list the keys
+  //   ~~  type a literal '~'
+  let localLineStart = true;
+  let localEscape = false;
+
+  /** Keystrokes from the local terminal — answers a pending confirmation, runs escapes, forwards the rest */
+  function handleLocalInput(data: string): void {
+    if (localConfirm) { localConfirm(data); return; }
+    let out = '';
+    for (const ch of data) {
+      if (localEscape) {
+        localEscape = false;
+        if (ch === 'e') {
+          extendSession(config.sessionTtlMinutes, 'local');
+          writeLocal(`\r\n${GREEN}✓${RESET} Session extended until ${new Date(sessionExpiresAt).toLocaleTimeString()}\r\n`);
+          continue;
+        }
+        if (ch === 'r') { rotateTokens('local'); continue; }
+        if (ch === 'p') {
+          announce(`\n${GREEN}✓${RESET} New pairing codes — earlier codes no longer work\n${pairingText(issuePairCodes())}`);
+          continue;
+        }
+        if (ch === '?') {
+          writeLocal(`\r\n${DIM}~e extend the session · ~r rotate the tokens · ~p new pairing codes · ~~ type ~${RESET}\r\n`);
+          continue;
+        }
+        // Not an escape after all — pass both characters through ('~~' sends one)
+        out += ch === '~' ? '~' : '~' + ch;
+      } else if (localLineStart && ch === '~') {
+        localEscape = true;
+        continue;
+      } else {
+        out += ch;
+      }
+      localLineStart = ch === '\r' || ch === '\n';
+    }
+    if (out && ptyProcess) ptyProcess.write(out);
+  }
+
+  // Where the bridge can be reached — set by main(), reprinted after a token rotation
+  let bridgeUrl = '';
+  let tunnelUrl: string | null = null;
+  const modeParam = playback ? '&play=1' : hubMode ? '&hub=1' : '';
+
+  /** Notices for whoever sits at this machine — a daemon, or a bridge without a terminal, logs them */
+  function announce(text: string): void {
+    if (options.daemon || !options.terminal) log(text);
+    writeLocal(text.replace(/\n/g, '\r\n'));
+  }
+
+  /**
+   * How to get in with the current credentials: new pairing codes, or with
+   * --token-url the token URLs (and a QR code when there is a tunnel)
+   */
+  async function announceAccess(heading: string): Promise<void> {
+    let text = `\n${GREEN}✓${RESET} ${heading}\n`;
+    if (config.tokenUrl) {
+      const base = tunnelUrl ?? bridgeUrl;
+      const ownerUrl = `${base}?token=${sessionToken}${modeParam}`;
+      text += `  URL: ${BOLD}${ownerUrl}${RESET}\n  Viewer (read-only): ${base}?token=${viewerToken}${modeParam}\n`;
+      if (tunnelUrl) (await loadQr())?.generate(ownerUrl, { small: true }, (code: string) => { text += code + '\n'; });
+    } else {
+      text += pairingText(issuePairCodes());
+    }
+    announce(text);
+  }
+
+  // R-01: WebSocketServer error handler — prevents process crash on WSS-level errors
+  wss.on('error', (err) => {
+    console.error('[wss] WebSocketServer error:', err.message);
+  });
+
+  wss.on('connection', (ws, req) => {
+    // F-10: Connection cap (global + per-IP)
+    if (connections.size >= config.maxConnections) {
+      metrics.inc('connections_rejected_total', 1, 'total');
+      ws.close(1013, 'Max connections reached');
+      return;
+    }
+    const remoteAddress = req.socket.remoteAddress || 'unknown';
+    let perIpCount = 0;
+    for (const [, c] of connections) {
+      if (clientStates.get(c)?.remoteAddress === remoteAddress) perIpCount++;
+    }
+    if (perIpCount >= config.maxConnectionsPerIp) {
+      metrics.inc('connections_rejected_total', 1, 'per-ip');
+      ws.close(1013, 'Max connections per IP reached');
+      return;
+    }
+    const id = crypto.randomUUID();
+    const role = ticketRoles.get(req) ?? 'viewer';
+    const state: ClientState = { role, remoteAddress, isAlive: true };
+    clientStates.set(ws, state);
+    connections.set(id, ws);
+    auditLog.write({ src: remoteAddress, conn: id, type: 'connect', role });
+    emit('clientConnected', { id, role, address: remoteAddress });
+
+    // R-02: Per-connection error handler to prevent unhandled crash
+    ws.on('error', (err) => { console.error('[ws] Connection error:', err.message); });
+
+    // Tell the client its role so viewer UIs can hide input controls
+    sendTo(ws, JSON.stringify({ type: 'role', role }));
+    sendTo(ws, expiryMessage());
+    if (!hubMode && !playback) sendTo(ws, JSON.stringify({ type: 'pty_size', ...ptySize, policy: config.sizePolicy }));
+
+    // Send a screen snapshot of every PTY to late-joining clients (catch up on PTY state)
+    if (!hubMode && vterm) {
+      sendPtyList(ws);
+      sendSnapshots(ws);
+    }
+
+    // Remote input policy — one line gate per PTY this client types into
+    const gates = new Map<string, LineGate>();
+    const gateFor = (ptyId: string): LineGate => {
+      let gate = gates.get(ptyId);
+      if (gate) return gate;
+      gate = createPolicyGate(ptyId, { src: remoteAddress, conn: id }, (rule, decision) => {
+        sendTo(ws, JSON.stringify({ type: 'policy', ptyId, rule, decision }));
+      });
+      gates.set(ptyId, gate);
+      return gate;
+    };
+
+    // F-13: Per-connection WS message rate limiter (default 100 msg/sec)
+    let wsMessageCount = 0;
+    let wsMessageResetAt = Date.now() + 1000;
+
+    // F-10: WS ping/pong heartbeat
+    ws.on('pong', () => { state.isAlive = true; });
+
+    ws.on('message', async (data) => {
+      metrics.inc('messages_received_total');
+      // F-13: Enforce WS message rate limit
+      const now = Date.now();
+      if (now > wsMessageResetAt) { wsMessageCount = 0; wsMessageResetAt = now + 1000; }
+      wsMessageCount++;
+      if (wsMessageCount > config.wsMessageRateLimit) {
+        metrics.inc('rate_limited_total', 1, 'ws');
+        auditLog.write({ src: remoteAddress, conn: id, type: 'rejected', reason: 'ws-rate-limit' });
+        return;
+      }
+      const raw = data.toString();
+      try {
+        const msg = JSON.parse(raw);
+        // Viewer connections are read-only — never forward their keystrokes or open PTYs
+        if (role === 'viewer' && ['pty_input', 'grid_input', 'pty_open', 'pty_close'].includes(msg.type)) {
+          auditLog.write({ src: remoteAddress, conn: id, type: 'rejected', reason: 'viewer-read-only', msgType: msg.type });
+          return;
+        }
+        // Input without a ptyId goes to the main PTY (older clients, hub relays)
+        const ptyId = msg.ptyId === undefined ? MAIN_PTY : String(msg.ptyId);
+        const target = ptyId === MAIN_PTY ? ptyProcess : extraPtys.get(ptyId)?.proc;
+        if (msg.type === 'pty_input' && target) {
+          // R-03: Validate msg.data is a string before writing to PTY
+          if (typeof msg.data !== 'string') {
+            auditLog.write({ src: remoteAddress, conn: id, ptyId, type: 'rejected', reason: 'invalid-data-type', dataType: typeof msg.data });
+          } else {
+            setActiveClient(id);
+            if (!config.inputPolicy) writeRemoteInput(ptyId, { src: remoteAddress, conn: id }, msg.data);
+            else if (!gateFor(ptyId).write(msg.data)) {
+              auditLog.write({ src: remoteAddress, conn: id, ptyId, type: 'rejected', reason: 'policy-queue-full' });
+            }
+          }
+        }
+        if (msg.type === 'pty_open' && ptyProcess) {
+          const commandLine = typeof msg.command === 'string' ? msg.command : '';
+          const reject = (reason: string, message: string) => {
+            auditLog.write({ src: remoteAddress, conn: id, type: 'rejected', reason, command: redactSecrets(commandLine.slice(0, 200)) });
+            sendTo(ws, JSON.stringify({ type: 'pty_error', message }));
+          };
+          if (!config.ptyCommands.includes(commandLine)) {
+            reject('pty-not-allowed', `"${commandLine}" is not in ptyCommands`);
+          } else if (1 + extraPtys.size >= config.maxPtys) {
+            reject('pty-limit', `At most ${config.maxPtys} PTYs (maxPtys) — close one first`);
+          } else {
+            try {
+              const opened = await openExtraPty(commandLine);
+              auditLog.write({ src: remoteAddress, conn: id, ptyId: opened.id, type: 'pty_open', command: commandLine });
+              sendTo(ws, JSON.stringify({ type: 'pty_opened', ptyId: opened.id }));
+            } catch (err) {
+              reject('pty-spawn-failed', `Cannot start "${commandLine}": ${(err as Error).message}`);
+            }
+          }
+        }
+        if (msg.type === 'pty_close' && extraPtys.has(ptyId)) {
+          auditLog.write({ src: remoteAddress, conn: id, ptyId, type: 'pty_close' });
+          closeExtraPty(ptyId);
+        }
+        // Remote window sizes feed the size policy — viewers watch but never resize
+        if (msg.type === 'pty_resize' && role === 'owner') {
+          const cols = Number(msg.cols);
+          const rows = Number(msg.rows);
+          if (Number.isInteger(cols) && Number.isInteger(rows) && cols >= 1 && cols <= 500 && rows >= 1 && rows <= 200) {
+            remoteSizes.set(id, { cols, rows });
+            if (config.sizePolicy === 'smallest' || (config.sizePolicy === 'active' && activeClient === id)) scheduleResize();
+          } else {
+            auditLog.write({ src: remoteAddress, conn: id, type: 'rejected', reason: 'invalid-size', cols: String(msg.cols).slice(0, 20), rows: String(msg.rows).slice(0, 20) });
+          }
+        }
+        // A relay joining a session that's already streaming asks for a fresh screen
+        if (!hubMode && msg.type === 'snapshot_request' && vterm && !state.pending) {
+          sendSnapshots(ws, ptyId);
+        }
+        // Grid relay: hub proxies PTY data between phone and local sessions
+        if (hubMode && msg.type === 'grid_connect') {
+          const port = Number(msg.port);
+          if (!Number.isInteger(port) || port < 1 || port > 65535) return;
+          // Only sessions this machine registered — never arbitrary local ports
+          if (!readLocalSessions().some(s => s.port === port)) return;
+          relayPool.attach(id, port, (m) => sendTo(ws, JSON.stringify(m)));
+        }
+
+        if (hubMode && msg.type === 'grid_disconnect') {
+          relayPool.detach(id, Number(msg.port));
+        }
+
+        if (hubMode && msg.type === 'grid_input' && typeof msg.data === 'string') {
+          relayPool.input(id, Number(msg.port), msg.data);
+        }
+      } catch {
+        // #3: Log but do NOT write to PTY — only structured pty_input messages allowed
+        auditLog.write({ src: remoteAddress, conn: id, type: 'rejected', reason: 'non-json', length: raw.length });
+      }
+    });
+
+    ws.on('close', (code) => {
+      connections.delete(id);
+      for (const gate of gates.values()) gate.dispose();
+      if (remoteSizes.delete(id) || activeClient === id) {
+        if (activeClient === id) activeClient = 'local';
+        scheduleResize();
+      }
+      auditLog.write({ src: remoteAddress, conn: id, type: 'disconnect', role, code });
+      emit('clientDisconnected', { id, role, address: remoteAddress, code });
+      // Release this client's relays — other clients watching the same sessions keep theirs
+      relayPool.detachAll(id);
+    });
+  });
+
+  // Headless terminal model of the PTY screen — source of snapshots for late joiners
+  const SCROLLBACK_LINES = config.scrollbackLines;
+  let vterm: VirtualTerminal | null = null;
+
+  // --record: asciicast of the redacted PTY stream
+  let recorder: CastRecorder | null = null;
+
+  // PTY chunks go through a stream redactor so secrets split across chunks
+  // (or broken up by escape sequences) are still caught before anything leaves
+  const outputRedactor = createStreamRedactor(createSecretScanner(redactionOptions), (redacted) => {
+    triggerEngine.output(redacted);
+    vterm?.write(redacted);
+    notifyScreenWatchers();
+    recorder?.output(redacted);
+    metrics.inc('broadcast_bytes_total', Buffer.byteLength(redacted));
+    sendToClients(JSON.stringify({ type: 'pty', ptyId: MAIN_PTY, data: redacted }));
+    emit('output', { ptyId: MAIN_PTY, data: redacted });
+  });
+
+  function broadcast(data: string): void {
+    outputRedactor.write(data);
+  }
+
+  /** One frame to one client, if it is still open — every frame goes through here so /metrics can count them */
+  function sendTo(ws: WebSocket, msg: string): void {
+    if (ws.readyState !== WebSocket.OPEN) return;
+    ws.send(msg);
+    metrics.inc('messages_sent_total');
+  }
+
+  /** Send to every client — held in a client's queue while its snapshots are still being taken */
+  function sendToClients(msg: string): void {
+    for (const [, ws] of connections) {
+      const pending = clientStates.get(ws)?.pending;
+      if (pending) { pending.push(msg); continue; }
+      sendTo(ws, msg);
+    }
+  }
+
+  /**
+   * Screen snapshots for one client — every PTY, or just `only`. Live output is
+   * queued until they are all out so nothing is lost or duplicated.
+   */
+  function sendSnapshots(ws: WebSocket, only?: string): void {
+    const all: Array<[string, VirtualTerminal]> = [[MAIN_PTY, vterm!], ...[...extraPtys.values()].map((p): [string, VirtualTerminal] => [p.id, p.vterm])];
+    const screens = only === undefined ? all : all.filter(([ptyId]) => ptyId === only);
+    if (screens.length === 0) return;
+    const state = clientStates.get(ws);
+    if (!state) return;
+    const pending: string[] = [];
+    state.pending = pending;
+    let remaining = screens.length;
+    for (const [ptyId, screen] of screens) {
+      screen.snapshot((snap) => {
+        sendTo(ws, JSON.stringify({ type: 'snapshot', ptyId, ...snap }));
+        if (--remaining > 0) return;
+        delete state.pending;
+        for (const m of pending) sendTo(ws, m);
+      });
+    }
+  }
+
+  // ─── Extra PTYs ─────────────────────────────────────────────
+  // The bridge's own command is the 'main' PTY. An owner can open more from the
+  // ptyCommands allowlist; each gets its own screen model and redactor, and its
+  // output is tagged with its ptyId. Only the main PTY is mirrored to the local
+  // terminal, recorded, and ends the bridge when it exits.
+  const MAIN_PTY = 'main';
+
+  interface ExtraPty {
+    id: string;
+    command: string;
+    /** Null once the process has exited */
+    proc: IPty | null;
+    vterm: VirtualTerminal;
+    output: StreamRedactor;
+    /** Set once the process has exited — the tab stays until someone closes it */
+    exitCode: number | null;
+  }
+
+  const extraPtys = new Map<string, ExtraPty>();
+  let nextPtyNumber = 1;
+
+  /** The PTY tabs, plus — for owners — the commands they may open */
+  function sendPtyList(only?: WebSocket): void {
+    const ptys = [
+      { id: MAIN_PTY, name: sessionName || command, command: [command, ...commandArgs].join(' ') },
+      ...[...extraPtys.values()].map(p => ({ id: p.id, name: p.command, command: p.command, exitCode: p.exitCode })),
+    ];
+    for (const ws of only ? [only] : connections.values()) {
+      const state = clientStates.get(ws);
+      const msg = JSON.stringify({ type: 'pty_list', ptys, commands: state?.role === 'owner' ? config.ptyCommands : [], maxPtys: config.maxPtys });
+      const pending = state?.pending;
+      if (pending) pending.push(msg);
+      else sendTo(ws, msg);
+    }
+  }
+
+  async function openExtraPty(commandLine: string): Promise<ExtraPty> {
+    const nodePty = await import('node-pty');
+    const [cmd, ...args] = splitCommandLine(commandLine);
+    const resolved = resolvePtyCommand(cmd!, args);
+    const cols = vterm?.cols ?? 120;
+    const rows = vterm?.rows ?? 30;
+    const proc = nodePty.spawn(resolved.file, resolved.args, { name: 'xterm-256color', cols, rows, cwd, env: safePtyEnv() });
+    const id = `pty${nextPtyNumber++}`;
+    const screen = createVirtualTerminal(cols, rows, SCROLLBACK_LINES);
+    const output = createStreamRedactor(createSecretScanner(redactionOptions), (redacted) => {
+      screen.write(redacted);
+      notifyScreenWatchers();
+      metrics.inc('broadcast_bytes_total', Buffer.byteLength(redacted));
+      sendToClients(JSON.stringify({ type: 'pty', ptyId: id, data: redacted }));
+      emit('output', { ptyId: id, data: redacted });
+    });
+    const entry: ExtraPty = { id, command: commandLine, proc, vterm: screen, output, exitCode: null };
+    proc.onData((data: string) => output.write(data));
+    proc.onExit(({ exitCode }: { exitCode: number }) => {
+      if (!extraPtys.has(id)) return;
+      output.flush();
+      entry.proc = null;
+      entry.exitCode = exitCode;
+      sendToClients(JSON.stringify({ type: 'pty_exit', ptyId: id, exitCode }));
+      sendPtyList();
+    });
+    extraPtys.set(id, entry);
+    sendPtyList();
+    return entry;
+  }
+
+  function closeExtraPty(id: string): void {
+    const entry = extraPtys.get(id);
+    if (!entry) return;
+    extraPtys.delete(id);
+    try { entry.proc?.kill(); } catch {}
+    entry.output.dispose();
+    entry.vterm.dispose();
+    sendPtyList();
+  }
+
+  // ─── Automation API ─────────────────────────────────────────
+  // GET /api/screen, GET /api/status, POST /api/input and POST /api/wait let
+  // scripts drive a session without speaking the WebSocket protocol. They read
+  // the same redacted screen model late joiners get, and input goes through the
+  // input policy like a phone's — see src/automation.ts for the request bodies.
+  let ptyStartedAt = 0;
+  let mainExitCode: number | null = null;
+  // Re-check callbacks of pending POST /api/wait requests — run after every chunk of output
+  const screenWatchers = new Set<() => void>();
+  const MAX_SCREEN_WATCHERS = 16;
+  // One line gate per address and PTY for input arriving over HTTP
+  const apiGates = new Map<string, LineGate>();
+
+  function notifyScreenWatchers(): void {
+    for (const check of screenWatchers) check();
+  }
+
+  function screenFor(ptyId: string): VirtualTerminal | undefined {
+    return ptyId === MAIN_PTY ? vterm ?? undefined : extraPtys.get(ptyId)?.vterm;
+  }
+
+  function apiGate(src: string, ptyId: string): LineGate {
+    const key = `${src} ${ptyId}`;
+    let gate = apiGates.get(key);
+    if (!gate) {
+      gate = createPolicyGate(ptyId, { src, conn: 'api' }, () => {});
+      apiGates.set(key, gate);
+    }
+    return gate;
+  }
+
+  /** Resolves with the first match on the screen, or null at the timeout — `cancel` gives up early */
+  function waitForScreen(ptyId: string, pattern: RegExp, timeoutMs: number): { result: Promise<{ match: RegExpMatchArray | null; text: string }>; cancel: () => void } {
+    let cancel = () => {};
+    const result = new Promise<{ match: RegExpMatchArray | null; text: string }>((resolve) => {
+      let done = false;
+      let checking = false;
+      let dirty = false;
+      let lastText = '';
+      const finish = (match: RegExpMatchArray | null) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timer);
+        screenWatchers.delete(check);
+        resolve({ match, text: lastText });
+      };
+      // One screen read at a time — output arriving meanwhile triggers one more read
+      const check = () => {
+        if (checking) { dirty = true; return; }
+        const screen = screenFor(ptyId);
+        if (!screen) return;
+        checking = true;
+        screen.text((text) => {
+          checking = false;
+          lastText = text;
+          const match = text.match(pattern);
+          if (match) finish(match);
+          else if (dirty && !done) { dirty = false; check(); }
+        });
+      };
+      const timer = setTimeout(() => finish(null), timeoutMs);
+      cancel = () => finish(null);
+      screenWatchers.add(check);
+      check();
+    });
+    return { result, cancel };
+  }
+
+  function statusReport(): Record<string, unknown> {
+    let owners = 0;
+    let viewers = 0;
+    for (const ws of connections.values()) {
+      if (clientStates.get(ws)?.role === 'owner') owners++;
+      else viewers++;
+    }
+    return {
+      name: sessionName || command,
+      // Arguments can carry secrets — the same redaction as the audit log
+      command: redactSecrets([command, ...commandArgs].join(' ')),
+      sessionId,
+      pid: ptyProcess?.pid ?? null,
+      bridgePid: process.pid,
+      startedAt: ptyStartedAt ? new Date(ptyStartedAt).toISOString() : null,
+      uptimeSeconds: ptyStartedAt ? Math.floor((Date.now() - ptyStartedAt) / 1000) : 0,
+      exitCode: mainExitCode,
+      size: ptySize,
+      clients: { owners, viewers },
+      expiresAt: sessionExpiresAt,
+      ptys: [...extraPtys.values()].map(p => ({ id: p.id, command: p.command, pid: p.proc?.pid ?? null, exitCode: p.exitCode })),
+    };
+  }
+
+  /** What GET /metrics reads at scrape time — the counters live in `metrics` */
+  async function metricGauges(): Promise<Gauge[]> {
+    const roles = { owner: 0, viewer: 0 };
+    for (const ws of connections.values()) roles[clientStates.get(ws)?.role ?? 'viewer']++;
+    const relays: Record<RelayState, number> = { connecting: 0, open: 0, retrying: 0 };
+    for (const r of relayPool.status()) relays[r.state]++;
+    const gauges: Gauge[] = [
+      { name: 'connections', help: 'Connected WebSocket clients', samples: Object.entries(roles).map(([role, value]) => ({ labels: { role }, value })) },
+      { name: 'relay_connections', help: 'Hub relays to local sessions for the grid view', samples: Object.entries(relays).map(([state, value]) => ({ labels: { state }, value })) },
+    ];
+    if (hubMode) {
+      // The same sessions GET /api/sessions lists — a missing tunnel CLI only loses the remote ones
+      let tunnels: TunnelSession[] = [];
+      try { tunnels = tunnelProvider.list(); } catch {}
+      const sessions = mergeSessions((await scanSessionFiles(sessionsDir)).sessions, tunnels, os.hostname());
+      gauges.push({
+        name: 'session_online', help: 'Sessions the hub can see — 1 while online',
+        samples: sessions.map(s => ({ labels: { id: s.tunnelId || s.id, name: s.name, machine: s.machine }, value: s.online ? 1 : 0 })),
+      });
+    } else if (!playback) {
+      const screens: Array<[string, VirtualTerminal | null]> = [[MAIN_PTY, vterm], ...[...extraPtys.values()].map((p): [string, VirtualTerminal] => [p.id, p.vterm])];
+      gauges.push(
+        { name: 'replay_buffer_lines', help: 'Lines a late joiner\'s snapshot replays, per PTY', samples: screens.filter(([, s]) => s).map(([pty, s]) => ({ labels: { pty }, value: s!.lines })) },
+        { name: 'pty_uptime_seconds', help: 'Seconds since the command started — 0 before it starts and after it exits', samples: [{ value: ptyProcess && ptyStartedAt ? Math.floor((Date.now() - ptyStartedAt) / 1000) : 0 }] },
+      );
+    }
+    return gauges;
+  }
+
+  // Resolve command path for node-pty on Windows
+  function resolvePtyCommand(file: string, args: string[]): { file: string; args: string[] } {
+    if (process.platform !== 'win32') return { file, args };
+    try {
+      const wherePaths = execFileSync('where', [file], { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() }).trim().split('\n');
+      // Prefer .exe or .cmd over .ps1 for node-pty compatibility
+      const exePath = wherePaths.find(p => p.trim().endsWith('.exe')) || wherePaths.find(p => p.trim().endsWith('.cmd'));
+      if (exePath) return { file: exePath.trim(), args };
+      // For .ps1 scripts, wrap with powershell
+      return { file: 'powershell', args: ['-File', wherePaths[0]!.trim(), ...args] };
+    } catch { return { file, args }; /* use as-is */ }
+  }
+
+  // F-07: Security — filter dangerous environment variables for PTY
+  // Blocklist approach: pass everything except known dangerous vars and secrets
+  function safePtyEnv(): Record<string, string> {
+    const DANGEROUS_VARS = new Set(config.blockedEnvVars);
+    const sensitivePattern = /token|secret|key|password|credential|api_key|private_key|access_key|connection_string|auth|kubeconfig|docker_host|docker_config|passwd|dsn|webhook/i;
+
+    const safeEnv: Record<string, string> = {};
+    for (const [k, v] of Object.entries(process.env)) {
+      if (v !== undefined && !DANGEROUS_VARS.has(k) && !sensitivePattern.test(k)) {
+        safeEnv[k] = v;
+      }
+    }
+    return safeEnv;
+  }
+
+  // ─── Terminal size arbitration ──────────────────────────────
+  // One PTY size is shared by the local terminal and every remote client.
+  // sizePolicy decides whose window sets it:
+  //   local    — the local terminal; remote sizes are ignored (default)
+  //   smallest — the smallest of the local terminal and all owner clients, like tmux
+  //   active   — whoever typed last
+  //   fixed    — fixedSize, whatever anyone's window is
+  // Every change is announced as pty_size so clients can letterbox.
+  interface TermSize { cols: number; rows: number }
+  const [fixedCols, fixedRows] = config.fixedSize.split('x').map(Number) as [number, number];
+  const remoteSizes = new Map<string, TermSize>(); // connection id → size from its last pty_resize
+  let localSize: TermSize | null = null; // null while a daemon has no terminal attached
+  let activeClient = 'local'; // connection id of whoever typed last
+  let ptySize: TermSize = { cols: 120, rows: 30 };
+  let localResizeAt = 0; // Timestamp of last local terminal resize
+  let sizeTimer: ReturnType<typeof setTimeout> | null = null;
+  // In 'active' mode a local window still being dragged beats a remote size for this long
+  const LOCAL_RESIZE_GRACE_MS = 1000;
+
+  function targetSize(): TermSize | null {
+    switch (config.sizePolicy) {
+      case 'fixed':
+        return { cols: fixedCols, rows: fixedRows };
+      case 'smallest': {
+        const sizes = [...(localSize ? [localSize] : []), ...remoteSizes.values()];
+        if (sizes.length === 0) return null;
+        return { cols: Math.min(...sizes.map(s => s.cols)), rows: Math.min(...sizes.map(s => s.rows)) };
+      }
+      case 'active': {
+        const remote = Date.now() - localResizeAt < LOCAL_RESIZE_GRACE_MS ? undefined : remoteSizes.get(activeClient);
+        return remote ?? localSize;
+      }
+      default:
+        return localSize;
+    }
+  }
+
+  function applyPtySize(size: TermSize): void {
+    ptySize = size;
+    if (ptyProcess) ptyProcess.resize(size.cols, size.rows);
+    vterm?.resize(size.cols, size.rows);
+    recorder?.resize(size.cols, size.rows);
+    for (const p of extraPtys.values()) { p.proc?.resize(size.cols, size.rows); p.vterm.resize(size.cols, size.rows); }
+    sendToClients(JSON.stringify({ type: 'pty_size', ...size, policy: config.sizePolicy }));
+  }
+
+  /** Re-arbitrate shortly — a burst of resizes (window drag, phone rotation) becomes one PTY resize */
+  function scheduleResize(): void {
+    if (sizeTimer) return;
+    sizeTimer = setTimeout(() => {
+      sizeTimer = null;
+      const size = targetSize();
+      if (size && (size.cols !== ptySize.cols || size.rows !== ptySize.rows)) applyPtySize(size);
+    }, 100);
+  }
+
+  function setLocalSize(size: TermSize | null): void {
+    localSize = size;
+    if (size) localResizeAt = Date.now();
+    scheduleResize();
+  }
+
+  function setActiveClient(client: string): void {
+    if (activeClient === client) return;
+    activeClient = client;
+    if (config.sizePolicy === 'active') scheduleResize();
+  }
+
+  // ─── Start bridge ───────────────────────────────────────────
+  let ptyProcess: IPty | null = null;
+  // --daemon: local terminals attached over the daemon socket
+  let attachServer: AttachServer | null = null;
+  // Removes the session file and takes the tunnel down — set once the tunnel is up
+  let closeTunnel: (() => void) | null = null;
+  let intervals: Array<ReturnType<typeof setInterval>> = [];
+  let stopping: Promise<void> | null = null;
+
+  async function start(): Promise<BridgeInfo> {
+    fs.mkdirSync(sessionsDir, { recursive: true, mode: 0o700 });
+    const actualPort = await new Promise<number>((resolve, reject) => {
+      server.listen(port, '127.0.0.1', () => {
+        const addr = server.address();
+        resolve(typeof addr === 'object' ? addr!.port : port);
+      });
+      server.on('error', reject);
+    });
+
+    intervals = [
+      // #30: Ticket GC — clean expired tickets every 30s
+      setInterval(() => {
+        const now = Date.now();
+        for (const [id, t] of tickets) {
+          if (t.expires < now) {
+            tickets.delete(id);
+            metrics.inc('tickets_expired_total');
+          }
+        }
+      }, 30000),
+      // Clean up rate limit maps every 60s
+      setInterval(() => {
+        const now = Date.now();
+        for (const [ip, entry] of rateLimits) { if (entry.resetAt < now) rateLimits.delete(ip); }
+        for (const [ip, entry] of ticketRateLimits) { if (entry.resetAt < now) ticketRateLimits.delete(ip); }
+        for (const [ip, entry] of pairRateLimits) { if (entry.resetAt < now) pairRateLimits.delete(ip); }
+      }, 60000),
+      // F-10: WS heartbeat — ping every 2 minutes, close unresponsive connections
+      // Longer interval prevents killing phone connections that go to background briefly
+      setInterval(() => {
+        for (const [id, ws] of connections) {
+          const state = clientStates.get(ws);
+          if (state?.isAlive === false) {
+            ws.terminate();
+            connections.delete(id);
+            metrics.inc('heartbeat_terminations_total');
+            continue;
+          }
+          if (state) state.isAlive = false;
+          ws.ping();
+        }
+      }, 120000),
+    ];
+
+    const { repo, branch } = getGitInfo();
+    const machine = os.hostname();
+    const displayName = sessionName || command;
+
+    // Token URLs only with --token-url — otherwise the banner ends with pairing codes
+    const printLocalUrls = (end = '') => {
+      if (!config.tokenUrl) {
+        log(`  ${DIM}Local URL:${RESET} http://127.0.0.1:${actualPort}${modeParam.replace('&', '?')}${end}`);
+        return;
+      }
+      log(`  ${DIM}Local URL:${RESET} http://127.0.0.1:${actualPort}?token=${sessionToken}${modeParam}`);
+      log(`  ${DIM}Viewer URL:${RESET} http://127.0.0.1:${actualPort}?token=${viewerToken}${modeParam} ${DIM}(read-only)${RESET}`);
+      log(`  ${YELLOW}⚠ Token in URL — do not share this URL in screen recordings or public channels${RESET}${end}`);
+    };
+
+    log(`\n${BOLD}cli-tunnel${RESET} ${DIM}v1.1.0${RESET}\n`);
+    if (playback) {
+      log(`  ${BOLD}▶ Playback${RESET} — ${playback.file}`);
+      log(`  ${DIM}Port:${RESET}     ${actualPort}`);
+      printLocalUrls('\n');
+    } else if (hubMode) {
+      log(`  ${BOLD}📋 Hub Mode${RESET} — sessions dashboard`);
+      log(`  ${DIM}Port:${RESET}     ${actualPort}`);
+      printLocalUrls('\n');
+    } else {
+      log(`  ${DIM}Command:${RESET}  ${command} ${commandArgs.join(' ')}`);
+      log(`  ${DIM}Name:${RESET}     ${displayName}`);
+      log(`  ${DIM}Port:${RESET}     ${actualPort}`);
+      log(`  ${DIM}Audit log:${RESET} ${auditLog.path}`);
+      if (recordPath) log(`  ${DIM}Recording:${RESET} ${recordPath}`);
+      printLocalUrls();
+      log(`  ${DIM}Session expires:${RESET} ${new Date(sessionExpiresAt).toLocaleTimeString()} ${DIM}(~e to extend, ~r to rotate the token)${RESET}`);
+    }
+    bridgeUrl = `http://127.0.0.1:${actualPort}`;
+    scheduleExpiry();
+
+    // Tunnel
+    if (hasTunnel && await tunnelProvider.ensureReady()) {
+      try {
+        const tunnelId = await tunnelProvider.create(actualPort, { name: sessionName || command, repo, branch, machine }, config.tunnelExpiration);
+        const hosted: HostedTunnel = await tunnelProvider.host(tunnelId, actualPort);
+        const url = hosted.url;
+        tunnelUrl = url;
+        try {
+          const host = new URL(url).hostname;
+          if (!host.endsWith('.devtunnels.ms')) tunnelHosts.add(host);
+        } catch {}
+
+        // Without --token-url the QR code is the bare URL — the phone pairs with a code
+        const openUrl = config.tokenUrl ? `${url}?token=${sessionToken}${modeParam}` : `${url}${modeParam.replace('&', '?')}`;
+        log(`  ${GREEN}✓${RESET} Tunnel: ${BOLD}${openUrl}${RESET}`);
+        if (config.tokenUrl) log(`  ${YELLOW}⚠ Token in URL — do not share in screen recordings or public channels${RESET}`);
+        log('');
+
+        // Write session file for hub discovery (a served recording is not a live session)
+        if (!playback) writeSessionFile(tunnelId, url, actualPort);
+
+        const qr = await loadQr();
+        qr?.generate(openUrl, { small: true }, (code: string) => log(code));
+        if (config.tokenUrl) {
+          const viewerUrl = `${url}?token=${viewerToken}${modeParam}`;
+          log(`  ${GREEN}✓${RESET} Viewer (read-only): ${BOLD}${viewerUrl}${RESET}\n`);
+          qr?.generate(viewerUrl, { small: true }, (code: string) => log(code));
+        }
+
+        closeTunnel = () => { removeSessionFile(); hosted.close(); tunnelProvider.delete(tunnelId); };
+      } catch (err) {
+        if (!(await tunnelProvider.handleError?.(err as Error))) {
+          log(`  ${YELLOW}⚠${RESET} Tunnel failed: ${(err as Error).message || ''}\n`);
+        }
+      }
+    }
+
+    if (!config.tokenUrl) log(pairingText(issuePairCodes()));
+
+    // Write session file for local-only sessions (no tunnel) so hub can discover them
+    if (!hubMode && !playback && !sessionFilePath) {
+      const localId = `local-${actualPort}`;
+      writeSessionFile(localId, `http://127.0.0.1:${actualPort}`, actualPort);
+    }
+
+    const info: BridgeInfo = { port: actualPort, url: bridgeUrl, tunnelUrl };
+
+    if (playback) {
+      // Playback mode — serve the recording, no PTY
+      log(`  ${GREEN}✓${RESET} Serving ${playback.cast.events.length} events — open in browser to play\n`);
+      return info;
+    }
+
+    if (hubMode) {
+      // Hub mode — just serve the sessions dashboard, no PTY
+      log(`  ${GREEN}✓${RESET} Hub running — open in browser to see all sessions\n`);
+      return info;
+    }
+
+    // e.g. wait for the user to scan the QR code / copy the URL before the command starts
+    await options.beforeSpawn?.(info);
+
+    log(`  ${DIM}Starting ${command}...${RESET}\n`);
+
+    // Clear screen before PTY takes over — prevents overlap with banner/QR output
+    options.terminal?.write('\x1b[2J\x1b[H');
+
+    // Spawn PTY
+    const nodePty = await import('node-pty');
+    // A daemon has no terminal of its own until one attaches
+    if (options.terminal) localSize = { cols: options.terminal.cols, rows: options.terminal.rows };
+    const startSize = targetSize();
+    if (startSize) {
+      ptySize = startSize;
+      // Clients that connected while the PTY was starting were told the placeholder size
+      sendToClients(JSON.stringify({ type: 'pty_size', ...ptySize, policy: config.sizePolicy }));
+    }
+    const { cols, rows } = ptySize;
+
+    const resolved = resolvePtyCommand(command, commandArgs);
+    ptyStartedAt = Date.now();
+    ptyProcess = nodePty.spawn(resolved.file, resolved.args, {
+      name: 'xterm-256color',
+      cols, rows, cwd,
+      env: safePtyEnv(),
+    });
+    vterm = createVirtualTerminal(cols, rows, SCROLLBACK_LINES);
+    // Clients that connected while the PTY was starting haven't had a PTY list yet
+    sendPtyList();
+    if (recordPath) {
+      try {
+        recorder = createCastRecorder(recordPath, {
+          width: cols, height: rows,
+          timestamp: Math.floor(Date.now() / 1000),
+          title: sessionName || command,
+          command: [command, ...commandArgs].join(' '),
+          env: { TERM: 'xterm-256color', SHELL: process.env.SHELL || '' },
+        });
+      } catch (err) {
+        log(`  ${YELLOW}⚠${RESET} Cannot record to ${recordPath}: ${(err as Error).message}`);
+      }
+    }
+
+    // Register data handler immediately so no PTY output is lost.
+    // A daemon's stdout is its log file — attached terminals get the output instead
+    ptyProcess.onData((data: string) => {
+      writeLocal(data);
+      broadcast(data);
+    });
+
+    ptyProcess.onExit(async ({ exitCode }: { exitCode: number }) => {
+      mainExitCode = exitCode;
+      // Detect CSPRNG crash (rare Node.js + PTY issue) and show helpful message
+      if (Date.now() - ptyStartedAt < 2000 && (exitCode === 134 || exitCode === 3221226505)) {
+        log(`  ${YELLOW}⚠${RESET} The command crashed (CSPRNG assertion failure).`);
+        log(`  This is a known issue with Node.js ${process.version} + PTY on Windows.`);
+        log(`  ${BOLD}Fix:${RESET} Install Node.js 22 LTS: ${GREEN}nvm install 22${RESET} or ${GREEN}winget install OpenJS.NodeJS.LTS${RESET}\n`);
+      } else {
+        log(`\n${DIM}Process exited (code ${exitCode}).${RESET}`);
+      }
+      outputRedactor.flush();
+      await triggerEngine.exit(exitCode);
+      recorder?.close();
+      if (recordPath && recorder) log(`${DIM}Recording saved to ${recordPath}${RESET}`);
+      ptyProcess = null;
+      await attachServer?.exit(exitCode);
+      // 'exit' means the bridge has stopped serving — the tunnel, session file and timers go too
+      await stop();
+      emit('exit', { exitCode });
+    });
+
+    if (options.daemon) {
+      // Daemon — no terminal of our own; local terminals come and go via `cli-tunnel attach`
+      try {
+        attachServer = await createAttachServer(daemonSocket!, {
+          // The snapshot comes from the redacted screen model; live output after it is raw, like a local terminal
+          snapshot: (cb) => { if (vterm) vterm.snapshot((snap) => cb(snap.data)); else cb(''); },
+          onInput: (data) => {
+            setActiveClient('local');
+            handleLocalInput(data);
+          },
+          onResize: (c, r) => setLocalSize({ cols: c, rows: r }),
+          onAttach: () => auditLog.write({ src: 'local', type: 'attach' }),
+          onDetach: () => {
+            auditLog.write({ src: 'local', type: 'detach' });
+            if (!attachServer?.clients) setLocalSize(null);
+          },
+        });
+      } catch (err) {
+        throw new Error(`Cannot listen on ${daemonSocket}: ${(err as Error).message}`);
+      }
+      log(`  ${GREEN}✓${RESET} ${daemonReadyLine(sessionName || sessionId)} ${DIM}(detach with Ctrl+])${RESET}\n`);
+    }
+    return info;
+  }
+
+  /**
+   * Take everything down: the command and any extra PTYs, connected clients,
+   * the tunnel and session file. The synchronous part runs before this
+   * returns, so it is safe to call from a process 'exit' handler.
+   */
+  function stop(): Promise<void> {
+    if (stopping) return stopping;
+    for (const timer of [...intervals, ...expiryTimers]) clearTimeout(timer);
+    if (sizeTimer) clearTimeout(sizeTimer);
+    if (closeTunnel) closeTunnel();
+    else removeSessionFile();
+    for (const entry of extraPtys.values()) { try { entry.proc?.kill(); } catch {} }
+    try { ptyProcess?.kill(); } catch {}
+    relayPool.close();
+    triggerEngine.dispose();
+    attachServer?.close();
+    if (daemonSocket && process.platform !== 'win32') { try { fs.unlinkSync(daemonSocket); } catch {} }
+    closeAllConnections(1001, 'Bridge stopped');
+    wss.close();
+    stopping = new Promise<void>((resolve) => {
+      if (!server.listening) { resolve(); return; }
+      server.close(() => resolve());
+      server.closeAllConnections();
+    }).then(() => auditLog.close());
+    return stopping;
+  }
+
+  return {
+    sessionId,
+    get token() { return sessionToken; },
+    get viewerToken() { return viewerToken; },
+    start,
+    stop,
+    input(data) {
+      setActiveClient('local');
+      handleLocalInput(data);
+    },
+    resize(size) { setLocalSize(size); },
+    on(event, listener) {
+      const set = listeners[event];
+      set.add(listener);
+      return () => { set.delete(listener); };
+    },
+  };
+}
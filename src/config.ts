@@ -0,0 +1,449 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PROVIDER_NAMES } from './tunnel.js';
+import type { CustomRedactionRule } from './redact.js';
+import { POLICY_ACTIONS, type InputPolicyRule } from './policy.js';
+import { NOTIFY_CHANNELS, type TriggerConfig } from './triggers.js';
+
+// ─── Layered configuration ──────────────────────────────────
+// Sources, lowest to highest precedence:
+//   built-in defaults → ~/.cli-tunnel/config.json → nearest .cli-tunnel.json
+//   (walking up from cwd) → CLI_TUNNEL_* env vars → command-line flags / --set
+// List values are additive: a layer can block more env vars, never fewer.
+
+/** A command the hub can start as a new session — `POST /api/sessions { profile }` */
+export interface LaunchProfile {
+  /** Profile name, also used as the session name */
+  name: string;
+  command: string;
+  args?: string[];
+  /** Working directory — absolute, or starting with ~/ (defaults to the hub's directory) */
+  cwd?: string;
+}
+
+export interface Config {
+  sessionTtlMinutes: number;
+  sessionWarnMinutes: number;
+  tokenUrl: boolean;
+  maxConnections: number;
+  maxConnectionsPerIp: number;
+  apiRateLimit: number;
+  ticketRateLimit: number;
+  wsMessageRateLimit: number;
+  scrollbackLines: number;
+  blockedEnvVars: string[];
+  tunnelExpiration: string;
+  provider: string;
+  port: number;
+  local: boolean;
+  sshTarget: string;
+  sshRemotePort: number;
+  tunnelCommand: string;
+  publicUrl: string;
+  redactionRules: CustomRedactionRule[];
+  redactionAllowlist: string[];
+  redactionEntropy: boolean;
+  redactionEntropyMinLength: number;
+  auditRetentionDays: number;
+  auditMaxFileSizeMb: number;
+  ptyCommands: string[];
+  maxPtys: number;
+  launchProfiles: LaunchProfile[];
+  inputPolicy: boolean;
+  inputPolicyRules: InputPolicyRule[];
+  inputConfirmTimeoutSec: number;
+  sizePolicy: string;
+  fixedSize: string;
+  triggers: TriggerConfig[];
+  webhookUrl: string;
+  connectEscapeKey: string;
+  metrics: boolean;
+}
+
+export type ConfigKey = keyof Config;
+
+interface KeySpec {
+  kind: 'int' | 'string' | 'boolean' | 'list' | 'rules' | 'profiles' | 'triggers';
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  choices?: readonly string[];
+  /** List entries are regular expressions */
+  regex?: boolean;
+  /** Rules may carry an `action` from this list */
+  actions?: readonly string[];
+  /** Runs commands or weakens a safeguard — never taken from a project file, which may come from a cloned repo */
+  userOnly?: boolean;
+}
+
+// F-07: Env vars never passed to the PTY (secrets are also filtered by name pattern)
+const DEFAULT_BLOCKED_ENV_VARS = ['NODE_OPTIONS', 'NODE_REPL_HISTORY', 'NODE_EXTRA_CA_CERTS',
+  'NODE_PATH', 'NODE_REDIRECT_WARNINGS', 'NODE_PENDING_DEPRECATION',
+  'UV_THREADPOOL_SIZE', 'LD_PRELOAD', 'DYLD_INSERT_LIBRARIES',
+  'SSH_AUTH_SOCK', 'GPG_TTY',
+  'PYTHONPATH', 'PYTHONSTARTUP', 'BASH_ENV', 'BASH_FUNC', 'JAVA_TOOL_OPTIONS', 'JAVA_OPTIONS', '_JAVA_OPTIONS',
+  'PROMPT_COMMAND', 'ENV', 'ZDOTDIR', 'PERL5OPT', 'RUBYOPT',
+  // F-04: Additional dangerous vars missed by original blocklist
+  'DATABASE_URL', 'REDIS_URL', 'MONGODB_URI', 'MONGO_URL',
+  'SLACK_WEBHOOK_URL', 'SLACK_TOKEN', 'SLACK_BOT_TOKEN',
+  'HTTP_PROXY', 'HTTPS_PROXY', 'ALL_PROXY', 'NO_PROXY',
+  'HISTFILE', 'HISTFILESIZE', 'LESSHISTFILE',
+  'GCP_SERVICE_ACCOUNT', 'GOOGLE_APPLICATION_CREDENTIALS',
+  'AZURE_SUBSCRIPTION_ID', 'AZURE_TENANT_ID', 'AZURE_CLIENT_ID', 'AZURE_CLIENT_SECRET',
+  'SENDGRID_API_KEY', 'TWILIO_AUTH_TOKEN', 'STRIPE_SECRET_KEY',
+  'AWS_SESSION_TOKEN', 'AWS_SECURITY_TOKEN'];
+
+export const DEFAULT_CONFIG: Config = {
+  sessionTtlMinutes: 240,
+  sessionWarnMinutes: 10,
+  tokenUrl: false,
+  maxConnections: 5,
+  maxConnectionsPerIp: 2,
+  apiRateLimit: 30,
+  ticketRateLimit: 10,
+  wsMessageRateLimit: 100,
+  scrollbackLines: 1000,
+  blockedEnvVars: DEFAULT_BLOCKED_ENV_VARS,
+  tunnelExpiration: '1d',
+  provider: 'devtunnel',
+  port: 0,
+  local: false,
+  sshTarget: '',
+  sshRemotePort: 80,
+  tunnelCommand: '',
+  publicUrl: '',
+  redactionRules: [],
+  redactionAllowlist: [],
+  redactionEntropy: false,
+  redactionEntropyMinLength: 24,
+  auditRetentionDays: 30,
+  auditMaxFileSizeMb: 10,
+  ptyCommands: [],
+  maxPtys: 4,
+  launchProfiles: [],
+  inputPolicy: true,
+  inputPolicyRules: [],
+  inputConfirmTimeoutSec: 60,
+  sizePolicy: 'local',
+  fixedSize: '120x40',
+  triggers: [],
+  webhookUrl: '',
+  connectEscapeKey: 'ctrl-]',
+  metrics: false,
+};
+
+const SCHEMA: Record<ConfigKey, KeySpec> = {
+  sessionTtlMinutes: { kind: 'int', min: 1, max: 7 * 24 * 60 },
+  sessionWarnMinutes: { kind: 'int', min: 0, max: 24 * 60 },
+  // Tokens in URLs end up in history and screenshots — a cloned repo can't turn that on
+  tokenUrl: { kind: 'boolean', userOnly: true },
+  maxConnections: { kind: 'int', min: 1, max: 100 },
+  maxConnectionsPerIp: { kind: 'int', min: 1, max: 100 },
+  apiRateLimit: { kind: 'int', min: 1, max: 10000 },
+  ticketRateLimit: { kind: 'int', min: 1, max: 1000 },
+  wsMessageRateLimit: { kind: 'int', min: 1, max: 10000 },
+  scrollbackLines: { kind: 'int', min: 0, max: 100000 },
+  blockedEnvVars: { kind: 'list', pattern: /^[A-Za-z_][A-Za-z0-9_]*$/ },
+  tunnelExpiration: { kind: 'string', pattern: /^\d+[hd]$/ },
+  // The provider runs a command (ssh, tunnelCommand) and decides where the bridge is
+  // published — a cloned repo must not pick either
+  provider: { kind: 'string', choices: PROVIDER_NAMES, userOnly: true },
+  port: { kind: 'int', min: 0, max: 65535 },
+  // Turning local off publishes the session through a tunnel
+  local: { kind: 'boolean', userOnly: true },
+  sshTarget: { kind: 'string', userOnly: true },
+  sshRemotePort: { kind: 'int', min: 1, max: 65535 },
+  tunnelCommand: { kind: 'string', userOnly: true },
+  publicUrl: { kind: 'string', pattern: /^(https?:\/\/\S+)?$/, userOnly: true },
+  redactionRules: { kind: 'rules' },
+  // An allowlist can switch redaction off — a cloned repo must not ship one
+  redactionAllowlist: { kind: 'list', regex: true, userOnly: true },
+  redactionEntropy: { kind: 'boolean' },
+  redactionEntropyMinLength: { kind: 'int', min: 12, max: 256 },
+  auditRetentionDays: { kind: 'int', min: 1, max: 3650 },
+  auditMaxFileSizeMb: { kind: 'int', min: 1, max: 1024 },
+  // Command lines a remote owner may open as extra PTYs, e.g. "bash" or "tail -f app.log"
+  ptyCommands: { kind: 'list', pattern: /^[^\s"'`$;|&<>]+( [^\s"'`$;|&<>]+)*$/, userOnly: true },
+  maxPtys: { kind: 'int', min: 1, max: 32 },
+  launchProfiles: { kind: 'profiles', userOnly: true },
+  inputPolicy: { kind: 'boolean', userOnly: true },
+  inputPolicyRules: { kind: 'rules', actions: POLICY_ACTIONS },
+  inputConfirmTimeoutSec: { kind: 'int', min: 5, max: 3600 },
+  // Who decides the PTY size — see "Terminal size arbitration" in index.ts
+  sizePolicy: { kind: 'string', choices: ['local', 'smallest', 'active', 'fixed'] },
+  // COLSxROWS for sizePolicy fixed, within the 500x200 remote resize bounds
+  fixedSize: { kind: 'string', pattern: /^(?:[1-9]\d?|[1-4]\d\d|500)x(?:[1-9]\d?|1\d\d|200)$/ },
+  triggers: { kind: 'triggers' },
+  // Receives session output excerpts — a cloned repo must not be able to redirect them
+  webhookUrl: { kind: 'string', pattern: /^(https?:\/\/\S+)?$/, userOnly: true },
+  // Disconnects `cli-tunnel connect` — a control key, so it never collides with typed text
+  connectEscapeKey: { kind: 'string', pattern: /^ctrl[-+][a-z@[\\\]^_]$/i },
+  // GET /metrics for Prometheus — still needs the owner token
+  metrics: { kind: 'boolean' },
+};
+
+export const CONFIG_KEYS = Object.keys(SCHEMA) as ConfigKey[];
+
+/** A value set from the command line, e.g. { key: 'port', value: '4000', source: 'flag --port' } */
+export interface ConfigOverride {
+  key: string;
+  /** Strings are parsed like env vars; anything else (from createTunnelSession's config) is checked as is */
+  value: unknown;
+  source: string;
+}
+
+export interface LoadConfigOptions {
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+  home?: string;
+  overrides?: ConfigOverride[];
+}
+
+export interface LoadedConfig {
+  config: Config;
+  /** Where each effective value came from */
+  sources: Record<ConfigKey, string>;
+  userFile: string;
+  projectFile: string | null;
+  errors: string[];
+}
+
+/** CLI_TUNNEL_SESSION_TTL_MINUTES ← sessionTtlMinutes */
+export function envVarName(key: ConfigKey): string {
+  return 'CLI_TUNNEL_' + key.replace(/([A-Z])/g, '_$1').toUpperCase();
+}
+
+function findProjectFile(cwd: string): string | null {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const candidate = path.join(dir, '.cli-tunnel.json');
+    if (fs.existsSync(candidate)) return candidate;
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/** "file:3:5: message" plus the offending line and a caret under the column */
+function formatAt(file: string, text: string, offset: number, message: string): string {
+  const before = text.slice(0, Math.max(0, Math.min(offset, text.length)));
+  const line = before.split('\n').length;
+  const column = before.length - before.lastIndexOf('\n');
+  const lineText = (text.split('\n')[line - 1] ?? '').replace(/\r$/, '');
+  const gutter = String(line).length;
+  return `${file}:${line}:${column}: ${message}\n` +
+    `  ${line} | ${lineText}\n` +
+    `  ${' '.repeat(gutter)} | ${' '.repeat(Math.max(0, column - 1))}^`;
+}
+
+function checkRegex(source: unknown, flags = ''): string | null {
+  if (typeof source !== 'string' || source === '') return 'must be a non-empty regex string';
+  let re: RegExp;
+  try { re = new RegExp(source, flags); } catch (err) { return (err as Error).message; }
+  // A pattern that matches nothing would insert a label between every character
+  return re.test('') ? `pattern /${source}/ matches an empty string` : null;
+}
+
+const RULE_NAME_RE = /^[a-z0-9][a-z0-9-]*$/i;
+
+function checkValue(key: ConfigKey, value: unknown): string | null {
+  const spec = SCHEMA[key];
+  switch (spec.kind) {
+    case 'int':
+      if (typeof value !== 'number' || !Number.isInteger(value)) return `${key} must be an integer`;
+      if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+        return `${key} must be between ${spec.min} and ${spec.max}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${key} must be true or false`;
+    case 'list':
+      if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) return `${key} must be an array of strings`;
+      for (const v of value as string[]) {
+        if (spec.pattern && !spec.pattern.test(v)) return `${key} contains an invalid entry "${v}"`;
+        const problem = spec.regex ? checkRegex(v) : null;
+        if (problem) return `${key} entry "${v}": ${problem}`;
+      }
+      return null;
+    case 'rules':
+      if (!Array.isArray(value)) return `${key} must be an array of { name, pattern, flags?, ${spec.actions ? 'action?' : 'label?'} } objects`;
+      for (const [i, rule] of value.entries()) {
+        if (typeof rule !== 'object' || rule === null) return `${key}[${i}] must be an object`;
+        const { name, pattern, flags, label, action } = rule as Record<string, unknown>;
+        if (typeof name !== 'string' || !RULE_NAME_RE.test(name)) return `${key}[${i}].name must be letters, digits and dashes`;
+        if (action !== undefined && !spec.actions?.includes(action as string)) {
+          return spec.actions ? `${key}[${i}].action must be one of: ${spec.actions.join(', ')}` : `${key}[${i}] has no action field`;
+        }
+        if (label !== undefined && (typeof label !== 'string' || !RULE_NAME_RE.test(label))) return `${key}[${i}].label must be letters, digits and dashes`;
+        if (flags !== undefined && (typeof flags !== 'string' || !/^[imsu]*$/.test(flags))) return `${key}[${i}].flags may only contain i, m, s, u`;
+        const problem = checkRegex(pattern, flags as string | undefined);
+        if (problem) return `${key}[${i}].pattern ${problem}`;
+      }
+      return null;
+    case 'profiles':
+      if (!Array.isArray(value)) return `${key} must be an array of { name, command, args?, cwd? } objects`;
+      for (const [i, profile] of value.entries()) {
+        if (typeof profile !== 'object' || profile === null) return `${key}[${i}] must be an object`;
+        const { name, command, args, cwd } = profile as Record<string, unknown>;
+        if (typeof name !== 'string' || !RULE_NAME_RE.test(name)) return `${key}[${i}].name must be letters, digits and dashes`;
+        if (typeof command !== 'string' || command.trim() === '') return `${key}[${i}].command must be a non-empty string`;
+        if (args !== undefined && (!Array.isArray(args) || args.some(a => typeof a !== 'string'))) return `${key}[${i}].args must be an array of strings`;
+        if (cwd !== undefined && (typeof cwd !== 'string' || !(path.isAbsolute(cwd) || cwd.startsWith('~/')))) {
+          return `${key}[${i}].cwd must be an absolute path or start with ~/`;
+        }
+      }
+      return null;
+    case 'triggers':
+      if (!Array.isArray(value)) return `${key} must be an array of { name, pattern | idleSeconds | exit, debounceSeconds?, notify? } objects`;
+      for (const [i, trigger] of value.entries()) {
+        if (typeof trigger !== 'object' || trigger === null) return `${key}[${i}] must be an object`;
+        const { name, pattern, flags, idleSeconds, exit, debounceSeconds, notify } = trigger as Record<string, unknown>;
+        if (typeof name !== 'string' || !RULE_NAME_RE.test(name)) return `${key}[${i}].name must be letters, digits and dashes`;
+        if ([pattern !== undefined, idleSeconds !== undefined, exit !== undefined].filter(Boolean).length !== 1) {
+          return `${key}[${i}] needs exactly one of pattern, idleSeconds or exit`;
+        }
+        if (pattern !== undefined) {
+          if (flags !== undefined && (typeof flags !== 'string' || !/^[imsu]*$/.test(flags))) return `${key}[${i}].flags may only contain i, m, s, u`;
+          const problem = checkRegex(pattern, flags as string | undefined);
+          if (problem) return `${key}[${i}].pattern ${problem}`;
+        }
+        if (idleSeconds !== undefined && !(Number.isInteger(idleSeconds) && (idleSeconds as number) >= 1 && (idleSeconds as number) <= 86400)) {
+          return `${key}[${i}].idleSeconds must be an integer between 1 and 86400`;
+        }
+        if (exit !== undefined && exit !== true) return `${key}[${i}].exit must be true`;
+        if (debounceSeconds !== undefined && !(Number.isInteger(debounceSeconds) && (debounceSeconds as number) >= 0 && (debounceSeconds as number) <= 86400)) {
+          return `${key}[${i}].debounceSeconds must be an integer between 0 and 86400`;
+        }
+        if (notify !== undefined && (!Array.isArray(notify) || notify.length === 0 || notify.some(n => !NOTIFY_CHANNELS.includes(n)))) {
+          return `${key}[${i}].notify must list one or more of: ${NOTIFY_CHANNELS.join(', ')}`;
+        }
+      }
+      return null;
+    case 'string':
+      if (typeof value !== 'string') return `${key} must be a string`;
+      if (spec.choices && !spec.choices.includes(value)) return `${key} must be one of: ${spec.choices.join(', ')}`;
+      if (spec.pattern && !spec.pattern.test(value)) return `${key} has an invalid value "${value}"`;
+      return null;
+  }
+}
+
+/** Env vars and flags are strings — coerce them to the key's type before checking */
+function parseString(key: ConfigKey, raw: string): unknown {
+  switch (SCHEMA[key].kind) {
+    case 'int': return /^-?\d+$/.test(raw.trim()) ? parseInt(raw, 10) : NaN;
+    case 'boolean': return ['1', 'true', 'yes', 'on'].includes(raw.toLowerCase()) ? true
+      : ['0', 'false', 'no', 'off', ''].includes(raw.toLowerCase()) ? false : raw;
+    case 'list': return raw.split(',').map(s => s.trim()).filter(Boolean);
+    case 'rules':
+    case 'profiles':
+    case 'triggers': try { return JSON.parse(raw); } catch { return raw; }
+    case 'string': return raw;
+  }
+}
+
+function isConfigKey(key: string): key is ConfigKey {
+  return Object.prototype.hasOwnProperty.call(SCHEMA, key);
+}
+
+/** Store a value that passed validation for `key` */
+function setConfigValue<K extends ConfigKey>(config: Config, key: K, value: unknown): void {
+  config[key] = value as Config[K];
+}
+
+export function loadConfig(options: LoadConfigOptions): LoadedConfig {
+  const env = options.env ?? process.env;
+  const userFile = path.join(options.home ?? os.homedir(), '.cli-tunnel', 'config.json');
+  const projectFile = findProjectFile(options.cwd);
+  const config: Config = { ...DEFAULT_CONFIG, blockedEnvVars: [...DEFAULT_CONFIG.blockedEnvVars] };
+  const sources = Object.fromEntries(CONFIG_KEYS.map(k => [k, 'default'])) as Record<ConfigKey, string>;
+  const errors: string[] = [];
+
+  const apply = (key: ConfigKey, value: unknown, source: string) => {
+    const kind = SCHEMA[key].kind;
+    if (kind === 'list' || kind === 'rules' || kind === 'profiles' || kind === 'triggers') {
+      const merged = new Map([...(config[key] as unknown[]), ...(value as unknown[])].map(v => [JSON.stringify(v), v]));
+      setConfigValue(config, key, [...merged.values()]);
+      sources[key] = sources[key] === 'default' ? `default + ${source}` : `${sources[key]} + ${source}`;
+    } else {
+      setConfigValue(config, key, value);
+      sources[key] = source;
+    }
+  };
+
+  const loadFile = (file: string, project: boolean) => {
+    let text: string;
+    try { text = fs.readFileSync(file, 'utf-8'); } catch { return; }
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (err) {
+      const message = (err as Error).message;
+      const pos = /position (\d+)/.exec(message);
+      errors.push(formatAt(file, text, pos ? parseInt(pos[1]!, 10) : text.length, `Invalid JSON: ${message.replace(/ in JSON at position.*$/, '')}`));
+      return;
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      errors.push(formatAt(file, text, text.search(/\S/), 'Config must be a JSON object'));
+      return;
+    }
+    for (const [key, value] of Object.entries(data)) {
+      if (key === '$schema') continue;
+      const offset = Math.max(0, text.indexOf(JSON.stringify(key)));
+      if (!isConfigKey(key)) { errors.push(formatAt(file, text, offset, `Unknown key "${key}"`)); continue; }
+      if (project && SCHEMA[key].userOnly) { errors.push(formatAt(file, text, offset, `${key} can only be set in ${userFile}`)); continue; }
+      const problem = checkValue(key, value);
+      if (problem) { errors.push(formatAt(file, text, offset, problem)); continue; }
+      apply(key, value, file);
+    }
+  };
+
+  loadFile(userFile, false);
+  if (projectFile) loadFile(projectFile, true);
+
+  for (const key of CONFIG_KEYS) {
+    const name = envVarName(key);
+    const raw = env[name];
+    if (raw === undefined) continue;
+    const value = parseString(key, raw);
+    const problem = checkValue(key, value);
+    if (problem) { errors.push(`${name}=${raw}: ${problem}`); continue; }
+    apply(key, value, `env ${name}`);
+  }
+
+  for (const o of options.overrides ?? []) {
+    if (!isConfigKey(o.key)) { errors.push(`${o.source}: Unknown key "${o.key}"`); continue; }
+    const value = typeof o.value === 'string' ? parseString(o.key, o.value) : o.value;
+    const problem = checkValue(o.key, value);
+    if (problem) { errors.push(`${o.source}: ${problem}`); continue; }
+    apply(o.key, value, o.source);
+  }
+
+  return { config, sources, userFile, projectFile, errors };
+}
+
+/** Parse `--set key=value` into an override */
+export function parseSetFlag(arg: string): ConfigOverride {
+  const eq = arg.indexOf('=');
+  return eq === -1
+    ? { key: arg, value: true, source: `--set ${arg}` }
+    : { key: arg.slice(0, eq), value: arg.slice(eq + 1), source: `--set ${arg.slice(0, eq)}` };
+}
+
+/** Human-readable effective config for `cli-tunnel config print` */
+export function formatConfig(loaded: LoadedConfig): string {
+  const lines = [
+    `User config:    ${loaded.userFile}${fs.existsSync(loaded.userFile) ? '' : ' (not found)'}`,
+    `Project config: ${loaded.projectFile ?? '(none found)'}`,
+    '',
+  ];
+  const width = Math.max(...CONFIG_KEYS.map(k => k.length));
+  for (const key of CONFIG_KEYS) {
+    const value = loaded.config[key];
+    const shown = Array.isArray(value)
+      ? `[${value.length} entries]`
+      : JSON.stringify(value);
+    lines.push(`  ${key.padEnd(width)}  ${shown.padEnd(14)}  ${loaded.sources[key]}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,143 @@
+import WebSocket from 'ws';
+import { DIM, RESET } from './tty.js';
+
+// ─── Terminal client ────────────────────────────────────────
+// `cli-tunnel connect <url|name>` does what the browser UI does, from a
+// terminal: trade a token, pairing cookie or session file for a one-time
+// ticket at /api/auth/ticket, open the WebSocket, draw the main PTY's
+// snapshot and pty frames, and send keystrokes as pty_input. The escape key
+// (Ctrl+] unless connectEscapeKey says otherwise) disconnects.
+
+// devtunnel shows non-browser clients an interstitial page unless told not to
+const TUNNEL_HEADERS = { 'X-Tunnel-Skip-AntiPhishing-Page': 'true' };
+
+// The session's main PTY — tabs are only shown in the browser UI
+const MAIN_PTY = 'main';
+
+/** The origin to talk to and the token from ?token=, if the URL has one */
+export function parseBridgeUrl(input: string): { baseUrl: string; token: string | null } {
+  const url = new URL(input);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error(`Expected an http(s) URL, got ${url.protocol}`);
+  return { baseUrl: url.origin, token: url.searchParams.get('token') };
+}
+
+/** Trade a pairing code for the cookie POST /api/auth/pair sets — returns the header that carries it */
+export async function pairWithCode(baseUrl: string, code: string): Promise<Record<string, string>> {
+  const res = await fetch(`${baseUrl}/api/auth/pair`, {
+    method: 'POST',
+    headers: { ...TUNNEL_HEADERS, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!res.ok) throw new Error(((await res.json().catch(() => null)) as { error?: string } | null)?.error ?? `HTTP ${res.status}`);
+  const cookie = res.headers.getSetCookie().map(c => c.split(';')[0]!).find(c => c.startsWith('cli_tunnel_'));
+  if (!cookie) throw new Error('The bridge did not set a pairing cookie');
+  return { Cookie: cookie };
+}
+
+export type TicketResult =
+  | { ok: true; ticket: string; role: 'owner' | 'viewer' }
+  /** `totp` is set when the bridge wants an authenticator code (required, invalid, replayed or locked) */
+  | { ok: false; error: string; totp?: string };
+
+export async function requestTicket(baseUrl: string, headers: Record<string, string>): Promise<TicketResult> {
+  const res = await fetch(`${baseUrl}/api/auth/ticket`, {
+    method: 'POST',
+    headers: { ...TUNNEL_HEADERS, ...headers },
+    signal: AbortSignal.timeout(10000),
+  });
+  const body = (await res.json().catch(() => ({}))) as { ticket?: string; role?: 'owner' | 'viewer'; error?: string; totp?: string };
+  if (res.ok && body.ticket) return { ok: true, ticket: body.ticket, role: body.role ?? 'viewer' };
+  const error = body.error ?? (res.status === 401 ? 'Not authorized — the token or pairing code is wrong or was rotated' : `HTTP ${res.status}`);
+  return { ok: false, error, ...(body.totp ? { totp: body.totp } : {}) };
+}
+
+export interface ConnectOptions {
+  input?: NodeJS.ReadStream;
+  output?: NodeJS.WriteStream;
+  /** Typed to disconnect (default Ctrl+]) */
+  escapeKey?: string;
+}
+
+export interface ConnectResult {
+  reason: 'detached' | 'closed';
+  /** The bridge's close code and reason, when it hung up */
+  code?: number;
+  message?: string;
+}
+
+/** Show the bridge's main PTY in the local terminal until the escape key or the bridge closes the connection */
+export function connectTerminal(baseUrl: string, ticket: string, options: ConnectOptions = {}): Promise<ConnectResult> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const escapeKey = options.escapeKey ?? '\x1d';
+
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`${baseUrl.replace(/^http/, 'ws')}/?ticket=${encodeURIComponent(ticket)}`, { headers: TUNNEL_HEADERS });
+    let opened = false;
+    let detached = false;
+    // Unknown until the bridge's role message — keystrokes typed before it wait
+    let role: string | null = null;
+    let early = '';
+    let warned = false;
+
+    const send = (msg: Record<string, unknown>) => { if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg)); };
+    const notice = (text: string) => output.write(`\r\n${DIM}[cli-tunnel] ${text}${RESET}\r\n`);
+    // Our window size feeds the bridge's size policy, like a phone's — viewers never resize
+    const sendSize = () => { if (role === 'owner') send({ type: 'pty_resize', cols: output.columns || 120, rows: output.rows || 30 }); };
+    const onInput = (chunk: Buffer | string) => {
+      const data = chunk.toString();
+      const at = data.indexOf(escapeKey);
+      const keys = at === -1 ? data : data.slice(0, at);
+      if (keys && role === null) early += keys;
+      else if (keys && role === 'owner') send({ type: 'pty_input', ptyId: MAIN_PTY, data: keys });
+      if (at !== -1) {
+        detached = true;
+        ws.close(1000);
+      }
+    };
+    const cleanup = () => {
+      input.off('data', onInput);
+      output.off('resize', sendSize);
+      if (input.isTTY) input.setRawMode(false);
+      input.pause();
+    };
+
+    ws.on('open', () => {
+      opened = true;
+      if (input.isTTY) input.setRawMode(true);
+      input.resume();
+      input.on('data', onInput);
+      output.on('resize', sendSize);
+    });
+    ws.on('message', (raw) => {
+      let msg: any;
+      try { msg = JSON.parse(raw.toString()); } catch { return; }
+      if (msg.type === 'role') {
+        role = msg.role;
+        sendSize();
+        if (role !== 'owner') notice('Connected read-only — your keystrokes are not sent.');
+        else if (early) send({ type: 'pty_input', ptyId: MAIN_PTY, data: early });
+        early = '';
+      } else if (msg.type === 'snapshot' && msg.ptyId === MAIN_PTY) {
+        output.write('\x1b[2J\x1b[H' + msg.data);
+      } else if (msg.type === 'pty' && msg.ptyId === MAIN_PTY) {
+        output.write(msg.data);
+      } else if (msg.type === 'policy') {
+        if (msg.decision === 'held') notice(`Waiting for approval at the computer (${msg.rule})...`);
+        else notice(`${msg.decision === 'denied' ? 'Blocked by input policy' : 'Approved'}: ${msg.rule}`);
+      } else if (msg.type === 'expiry' && msg.warning && !warned) {
+        warned = true;
+        notice(`The session expires at ${new Date(msg.expiresAt).toLocaleTimeString()}.`);
+      }
+    });
+    ws.on('error', (err) => {
+      if (!opened) reject(err);
+    });
+    ws.on('close', (code, reason) => {
+      if (!opened) return;
+      cleanup();
+      resolve(detached ? { reason: 'detached' } : { reason: 'closed', code, message: reason.toString() });
+    });
+  });
+}
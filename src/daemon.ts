@@ -0,0 +1,283 @@
+import fs from 'node:fs';
+import net from 'node:net';
+import path from 'node:path';
+import { spawn } from 'node:child_process';
+
+// ─── Background daemon and local attach ─────────────────────
+// `cli-tunnel --daemon <command>` re-runs itself detached from the terminal
+// with CLI_TUNNEL_DAEMON=<id> set. The daemon owns the PTY, the bridge and
+// the tunnel, logs its banner to ~/.cli-tunnel/daemons/<id>.log, and listens
+// on a local socket. `cli-tunnel attach` connects the local terminal to that
+// socket; the detach key (Ctrl+]) disconnects and leaves everything running.
+//
+// Protocol: one JSON message per line in each direction.
+//   client → daemon: hello {cols, rows}, input {data}, resize {cols, rows}
+//   daemon → client: snapshot {data}, output {data}, exit {code}
+
+export const DAEMON_ENV = 'CLI_TUNNEL_DAEMON';
+export const DETACH_KEY = '\x1d'; // Ctrl+]
+const READY_MARKER = 'Daemon ready';
+const MAX_LINE = 1024 * 1024;
+
+export type AttachMessage =
+  | { type: 'hello'; cols: number; rows: number }
+  | { type: 'input'; data: string }
+  | { type: 'resize'; cols: number; rows: number };
+
+export type DaemonMessage =
+  | { type: 'snapshot'; data: string }
+  | { type: 'output'; data: string }
+  | { type: 'exit'; code: number };
+
+export function daemonSocketPath(dir: string, id: string): string {
+  return process.platform === 'win32' ? `\\\\.\\pipe\\cli-tunnel-${id}` : path.join(dir, `${id}.sock`);
+}
+
+/** Split a socket stream into JSON messages — oversized lines drop the connection; fields are checked where they are used */
+function readMessages<M>(socket: net.Socket, onMessage: (msg: M) => void): void {
+  let buffer = '';
+  socket.setEncoding('utf-8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let nl: number;
+    while ((nl = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, nl);
+      buffer = buffer.slice(nl + 1);
+      try { onMessage(JSON.parse(line)); } catch {}
+    }
+    if (buffer.length > MAX_LINE) socket.destroy();
+  });
+}
+
+function send(socket: net.Socket, msg: AttachMessage | DaemonMessage): void {
+  if (!socket.destroyed) socket.write(JSON.stringify(msg) + '\n');
+}
+
+// ─── Daemon side ────────────────────────────────────────────
+
+export interface AttachServerOptions {
+  /** Screen to show a newly attached terminal; output is queued until it has been sent */
+  snapshot(callback: (data: string) => void): void;
+  onInput(data: string): void;
+  onResize(cols: number, rows: number): void;
+  onAttach?(): void;
+  onDetach?(): void;
+}
+
+export interface AttachServer {
+  readonly path: string;
+  readonly clients: number;
+  /** Forward raw PTY output to every attached terminal */
+  output(data: string): void;
+  /** Tell attached terminals the command exited, then close the socket */
+  exit(code: number): Promise<void>;
+  close(): void;
+}
+
+export function createAttachServer(socketPath: string, options: AttachServerOptions): Promise<AttachServer> {
+  const clients = new Map<net.Socket, string[] | null>(); // socket → queued output until snapshot is out
+  // A socket left behind by a crashed daemon would make listen fail
+  if (process.platform !== 'win32') { try { fs.unlinkSync(socketPath); } catch {} }
+
+  const server = net.createServer((socket) => {
+    socket.on('error', () => {});
+    readMessages(socket, (msg: AttachMessage) => {
+      if (msg.type === 'hello' && !clients.has(socket)) {
+        const pending: string[] = [];
+        clients.set(socket, pending);
+        if (Number.isInteger(msg.cols) && Number.isInteger(msg.rows) && msg.cols > 0 && msg.rows > 0) options.onResize(msg.cols, msg.rows);
+        options.onAttach?.();
+        options.snapshot((data) => {
+          send(socket, { type: 'snapshot', data });
+          for (const d of pending) send(socket, { type: 'output', data: d });
+          if (clients.has(socket)) clients.set(socket, null);
+        });
+        return;
+      }
+      if (!clients.has(socket)) return;
+      if (msg.type === 'input' && typeof msg.data === 'string') options.onInput(msg.data);
+      if (msg.type === 'resize' && Number.isInteger(msg.cols) && Number.isInteger(msg.rows) && msg.cols > 0 && msg.rows > 0) {
+        options.onResize(msg.cols, msg.rows);
+      }
+    });
+    socket.on('close', () => {
+      if (clients.delete(socket)) options.onDetach?.();
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(socketPath, () => {
+      // The daemons directory is 0700 already; the socket itself is owner-only too
+      if (process.platform !== 'win32') { try { fs.chmodSync(socketPath, 0o600); } catch {} }
+      resolve({
+        path: socketPath,
+        get clients() { return clients.size; },
+        output(data) {
+          for (const [socket, pending] of clients) {
+            if (pending) pending.push(data);
+            else send(socket, { type: 'output', data });
+          }
+        },
+        exit(code) {
+          const ended = [...clients.keys()].map((socket) => new Promise<void>((done) => {
+            send(socket, { type: 'exit', code });
+            socket.end(done);
+          }));
+          server.close();
+          return Promise.race([Promise.all(ended).then(() => {}), new Promise<void>((r) => setTimeout(r, 500))]);
+        },
+        close() {
+          for (const socket of clients.keys()) socket.destroy();
+          server.close();
+        },
+      });
+    });
+  });
+}
+
+// ─── Client side ────────────────────────────────────────────
+
+export interface AttachResult {
+  reason: 'detached' | 'exited' | 'disconnected';
+  /** Exit code of the command when reason is 'exited' */
+  code?: number;
+}
+
+export interface AttachOptions {
+  input?: NodeJS.ReadStream;
+  output?: NodeJS.WriteStream;
+}
+
+/** Connect the local terminal to a daemon until detach, command exit or disconnect */
+export function attachToDaemon(socketPath: string, options: AttachOptions = {}): Promise<AttachResult> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(socketPath);
+    let result: AttachResult = { reason: 'disconnected' };
+    let connected = false;
+
+    const onInput = (chunk: Buffer | string) => {
+      const data = chunk.toString();
+      const at = data.indexOf(DETACH_KEY);
+      if (at === -1) { send(socket, { type: 'input', data }); return; }
+      if (at > 0) send(socket, { type: 'input', data: data.slice(0, at) });
+      result = { reason: 'detached' };
+      socket.end();
+    };
+    const onResize = () => send(socket, { type: 'resize', cols: output.columns || 120, rows: output.rows || 30 });
+    const cleanup = () => {
+      input.off('data', onInput);
+      output.off('resize', onResize);
+      if (input.isTTY) input.setRawMode(false);
+      input.pause();
+    };
+
+    socket.on('connect', () => {
+      connected = true;
+      send(socket, { type: 'hello', cols: output.columns || 120, rows: output.rows || 30 });
+      if (input.isTTY) input.setRawMode(true);
+      input.resume();
+      input.on('data', onInput);
+      output.on('resize', onResize);
+    });
+    readMessages(socket, (msg: DaemonMessage) => {
+      if (msg.type === 'snapshot') output.write('\x1b[2J\x1b[H' + msg.data);
+      if (msg.type === 'output') output.write(msg.data);
+      if (msg.type === 'exit') result = { reason: 'exited', code: msg.code };
+    });
+    socket.on('error', (err) => {
+      if (!connected) reject(err);
+    });
+    socket.on('close', () => {
+      if (!connected) return;
+      cleanup();
+      resolve(result);
+    });
+  });
+}
+
+// ─── Finding daemons ────────────────────────────────────────
+
+export interface DaemonSession {
+  name: string;
+  sessionId: string;
+  socket: string;
+  pid: number;
+  port: number;
+}
+
+/** Running daemons, from the session files they register for hub discovery */
+export function listDaemonSessions(sessionsDir: string): DaemonSession[] {
+  const found: DaemonSession[] = [];
+  let files: string[] = [];
+  try { files = fs.readdirSync(sessionsDir).filter(f => f.endsWith('.json')); } catch {}
+  for (const f of files) {
+    try {
+      const s = JSON.parse(fs.readFileSync(path.join(sessionsDir, f), 'utf-8'));
+      if (typeof s.socket !== 'string' || !Number.isInteger(s.pid)) continue;
+      process.kill(s.pid, 0); // throws if the daemon is gone
+      found.push({ name: String(s.name ?? ''), sessionId: String(s.sessionId ?? ''), socket: s.socket, pid: s.pid, port: Number(s.port) });
+    } catch {}
+  }
+  return found;
+}
+
+// ─── Starting a daemon ──────────────────────────────────────
+
+export interface StartDaemonOptions {
+  /** Script and arguments to re-run in the background (without --daemon) */
+  argv: string[];
+  dir: string;
+  id: string;
+  /** Working directory for the daemon and its command (default: ours) */
+  cwd?: string;
+  timeoutMs?: number;
+}
+
+/** Print this once the attach socket is listening — startDaemon waits for it */
+export function daemonReadyLine(name: string): string {
+  return `${READY_MARKER} — cli-tunnel attach ${name}`;
+}
+
+/**
+ * Spawn the daemon and wait until it is ready. Resolves with the log written
+ * so far (the banner with URLs and QR codes); rejects with the log tail if
+ * the daemon exits or stalls first — a stalled one is killed.
+ */
+export function startDaemon(options: StartDaemonOptions): Promise<{ pid: number; log: string; logPath: string }> {
+  fs.mkdirSync(options.dir, { recursive: true, mode: 0o700 });
+  const logPath = path.join(options.dir, `${options.id}.log`);
+  const logFd = fs.openSync(logPath, 'a', 0o600);
+  const child = spawn(process.execPath, options.argv, {
+    detached: true,
+    cwd: options.cwd,
+    stdio: ['ignore', logFd, logFd],
+    env: { ...process.env, [DAEMON_ENV]: options.id },
+    windowsHide: true,
+  });
+  fs.closeSync(logFd);
+  const readLog = () => { try { return fs.readFileSync(logPath, 'utf-8'); } catch { return ''; } };
+
+  return new Promise((resolve, reject) => {
+    let exited = false;
+    child.on('exit', () => { exited = true; });
+    child.on('error', (err) => { exited = true; reject(err); });
+    const deadline = Date.now() + (options.timeoutMs ?? 120000);
+    const timer = setInterval(() => {
+      const log = readLog();
+      if (log.includes(READY_MARKER)) {
+        clearInterval(timer);
+        child.unref();
+        resolve({ pid: child.pid!, log, logPath });
+      } else if (exited || Date.now() > deadline) {
+        clearInterval(timer);
+        // A stalled daemon would otherwise keep running unseen, holding its port and command
+        if (!exited) { child.kill(); child.unref(); }
+        reject(new Error(`${exited ? 'Daemon exited during startup' : 'Daemon did not become ready in time'} — log: ${logPath}\n${log.split('\n').slice(-15).join('\n')}`));
+      }
+    }, 100);
+  });
+}
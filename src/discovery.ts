@@ -0,0 +1,201 @@
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { sanitizeLabel, type TunnelSession } from './tunnel.js';
+
+// ─── Session discovery ──────────────────────────────────────
+// The hub's session list comes from two places: the files every bridge on
+// this machine writes to ~/.cli-tunnel/sessions, and the tunnel provider's
+// list (devtunnel labels). Local files cover --local sessions and providers
+// that can't list, and keep working when devtunnel is missing or logged out.
+
+/** What a bridge writes to ~/.cli-tunnel/sessions/<tunnelId>.json (mode 0600) */
+export interface SessionFile {
+  token: string;
+  /** Stands in for a TOTP code on the hub's own ticket requests */
+  localKey?: string;
+  name: string;
+  sessionId?: string;
+  tunnelId: string;
+  tunnelUrl: string;
+  port: number;
+  hubMode: boolean;
+  provider?: string;
+  machine?: string;
+  repo?: string;
+  branch?: string;
+  pid?: number;
+  socket?: string;
+  createdAt?: string;
+}
+
+export interface LocalSession extends SessionFile {
+  file: string;
+  /** The process is alive and its port accepts connections */
+  online: boolean;
+}
+
+export interface DiscoveredSession extends TunnelSession {
+  /** Runs on this machine */
+  isLocal: boolean;
+  /** Found through its session file, the tunnel provider, or both */
+  source: 'file' | 'tunnel' | 'both';
+}
+
+/** How a local client (the hub, cli-tunnel connect) asks a session for a ticket — the local key stands in for a TOTP code */
+export function sessionAuthHeaders(session: { token: string; localKey?: string }): Record<string, string> {
+  return { 'Authorization': `Bearer ${session.token}`, ...(session.localKey ? { 'X-Local-Key': session.localKey } : {}) };
+}
+
+/** Every parseable session file — no liveness checks */
+export function readSessionFiles(dir: string): Array<SessionFile & { file: string }> {
+  let names: string[];
+  try { names = fs.readdirSync(dir); } catch { return []; }
+  return names
+    .filter(f => f.endsWith('.json'))
+    .map(f => {
+      const file = path.join(dir, f);
+      try { return { ...JSON.parse(fs.readFileSync(file, 'utf-8')), file }; } catch { return null; }
+    })
+    .filter((s): s is SessionFile & { file: string } => s !== null && typeof s.port === 'number' && typeof s.tunnelId === 'string');
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: it exists, it just isn't ours to signal
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/** Whether something accepts connections on 127.0.0.1:port */
+export function probePort(port: number, timeoutMs = 500): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host: '127.0.0.1', port });
+    const done = (ok: boolean) => { socket.destroy(); resolve(ok); };
+    socket.setTimeout(timeoutMs, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+export interface ScanOptions {
+  probe?: (port: number) => Promise<boolean>;
+  alive?: (pid: number) => boolean;
+}
+
+/**
+ * Session files with their liveness, nothing deleted. A file is stale when the
+ * process that wrote it is gone — or, for files without a pid, when its port
+ * no longer answers.
+ */
+export async function checkSessionFiles(dir: string, options: ScanOptions = {}): Promise<Array<LocalSession & { stale: boolean }>> {
+  const probe = options.probe ?? probePort;
+  const alive = options.alive ?? isProcessAlive;
+  return Promise.all(readSessionFiles(dir).map(async (s) => {
+    const running = s.pid === undefined ? null : alive(s.pid);
+    const reachable = running === false ? false : await probe(s.port);
+    return { ...s, online: reachable, stale: running === false || (running === null && !reachable) };
+  }));
+}
+
+/** Session files with their liveness — stale ones are deleted */
+export async function scanSessionFiles(dir: string, options: ScanOptions = {}): Promise<{ sessions: LocalSession[]; removed: string[] }> {
+  const sessions: LocalSession[] = [];
+  const removed: string[] = [];
+  for (const { stale, ...s } of await checkSessionFiles(dir, options)) {
+    if (!stale) { sessions.push(s); continue; }
+    try { fs.unlinkSync(s.file); removed.push(s.file); } catch {}
+  }
+  return { sessions, removed };
+}
+
+/**
+ * Send SIGTERM and wait for the process to go — bridges exit through their
+ * normal cleanup (tunnel, session file). Resolves false if it is still running.
+ */
+export async function stopProcess(pid: number, timeoutMs = 5000): Promise<boolean> {
+  try { process.kill(pid, 'SIGTERM'); } catch {}
+  const deadline = Date.now() + timeoutMs;
+  while (isProcessAlive(pid)) {
+    if (Date.now() > deadline) return false;
+    await new Promise(r => setTimeout(r, 100));
+  }
+  return true;
+}
+
+// devtunnel reports ids with a cluster suffix (abc123.euw); session files have the bare id
+const baseId = (id: string) => id.replace(/\.\w+$/, '');
+
+/** One entry per tunnel id — a session file and a provider entry for the same tunnel are merged */
+export function mergeSessions(local: LocalSession[], tunnels: TunnelSession[], localMachine: string): DiscoveredSession[] {
+  const merged = new Map<string, DiscoveredSession>();
+  for (const t of tunnels) {
+    merged.set(baseId(t.tunnelId || t.id), { ...t, isLocal: t.machine === localMachine, source: 'tunnel' });
+  }
+  for (const s of local) {
+    if (s.hubMode) continue;
+    const id = baseId(s.tunnelId);
+    const known = merged.get(id);
+    if (known) {
+      merged.set(id, { ...known, port: s.port, online: known.online || s.online, isLocal: true, source: 'both' });
+      continue;
+    }
+    merged.set(id, {
+      id, tunnelId: s.tunnelId, name: s.name,
+      repo: s.repo ?? 'unknown', branch: s.branch ?? 'unknown', machine: s.machine ?? localMachine,
+      online: s.online, port: s.port,
+      // Local-only sessions have no URL a phone could open — the hub's grid relay reaches them
+      url: s.tunnelId.startsWith('local-') ? '' : s.tunnelUrl,
+      isLocal: true, source: 'file',
+    });
+  }
+  return [...merged.values()];
+}
+
+/** A row of `cli-tunnel ls` */
+export interface ListedSession {
+  name: string;
+  /** What `cli-tunnel kill` and `attach` take — the session id, or the tunnel id for provider-only entries */
+  id: string;
+  kind: 'session' | 'daemon' | 'hub' | 'tunnel';
+  status: 'online' | 'offline' | 'stale';
+  port: number;
+  pid: number | null;
+  machine: string;
+  url: string;
+}
+
+/** Every session file on this machine, then the provider's tunnels that no file accounts for */
+export function listSessions(files: Array<LocalSession & { stale: boolean }>, tunnels: TunnelSession[], localMachine: string): ListedSession[] {
+  const rows: ListedSession[] = files.map(s => ({
+    name: s.name,
+    id: s.sessionId || s.tunnelId,
+    kind: s.hubMode ? 'hub' : s.socket ? 'daemon' : 'session',
+    status: s.stale ? 'stale' : s.online ? 'online' : 'offline',
+    port: s.port,
+    pid: s.pid ?? null,
+    machine: s.machine ?? localMachine,
+    url: s.tunnelId.startsWith('local-') ? `http://127.0.0.1:${s.port}` : s.tunnelUrl,
+  }));
+  const known = new Set(files.map(s => baseId(s.tunnelId)));
+  for (const t of tunnels) {
+    if (known.has(baseId(t.tunnelId || t.id))) continue;
+    rows.push({ name: t.name, id: t.id, kind: 'tunnel', status: t.online ? 'online' : 'offline', port: t.port, pid: null, machine: t.machine, url: t.url });
+  }
+  return rows;
+}
+
+/**
+ * Tunnels labelled as this machine's that no live session file claims and
+ * nothing is hosting — left behind by a bridge that was killed or crashed.
+ */
+export function orphanedTunnels(tunnels: TunnelSession[], live: SessionFile[], machine = os.hostname()): TunnelSession[] {
+  const claimed = new Set(live.map(s => baseId(s.tunnelId)));
+  // Providers label tunnels with the sanitized hostname
+  const label = sanitizeLabel(machine);
+  return tunnels.filter(t => t.machine === label && !t.online && !claimed.has(baseId(t.tunnelId || t.id)));
+}
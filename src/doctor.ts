@@ -0,0 +1,119 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { devtunnelVersion, devtunnelLoggedIn, devtunnelInstallCommand } from './tunnel.js';
+
+// ─── cli-tunnel doctor ──────────────────────────────────────
+// Checks the things that make a session fail to start or quietly fall back
+// to local-only: Node version, the node-pty native module, the devtunnel CLI
+// and its login, and who else can read ~/.cli-tunnel (tokens, TOTP secret).
+
+export type CheckStatus = 'ok' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  /** What to run or change when the check is not ok */
+  fix?: string;
+}
+
+export interface DoctorOptions {
+  /** Whose ~/.cli-tunnel to check (default: os.homedir()) */
+  home?: string;
+  /** The configured tunnel provider — devtunnel problems only warn when it is in use */
+  provider?: string;
+}
+
+/** package.json engines.node — Node 20 still runs, with the occasional native-module hiccup */
+export const RECOMMENDED_NODE_MAJOR = 22;
+export const MIN_NODE_MAJOR = 20;
+
+// Secrets and tokens live in these — nobody else should be able to read them
+const PRIVATE_FILES = ['totp.json', 'vapid.json', 'push-subscriptions.json'];
+const PRIVATE_DIRS = ['', 'sessions', 'audit', 'daemons'];
+
+export async function runDoctor(options: DoctorOptions = {}): Promise<DoctorCheck[]> {
+  const home = options.home ?? os.homedir();
+  const provider = options.provider ?? 'devtunnel';
+  const checks: DoctorCheck[] = [checkNode(), await checkNodePty()];
+
+  const version = devtunnelVersion();
+  const needed = provider === 'devtunnel';
+  if (version === null) {
+    checks.push(needed
+      ? { name: 'devtunnel', status: 'warn', detail: 'not installed — sessions stay local-only', fix: devtunnelInstallCommand() }
+      : { name: 'devtunnel', status: 'ok', detail: `not installed (not needed for provider ${provider})` });
+  } else {
+    checks.push({ name: 'devtunnel', status: 'ok', detail: version });
+    checks.push(devtunnelLoggedIn()
+      ? { name: 'devtunnel login', status: 'ok', detail: 'logged in' }
+      : { name: 'devtunnel login', status: needed ? 'warn' : 'ok', detail: 'not logged in', fix: 'devtunnel user login' });
+  }
+
+  const root = path.join(home, '.cli-tunnel');
+  for (const dir of PRIVATE_DIRS) {
+    checks.push(checkDirectory(path.posix.join('~/.cli-tunnel', dir), path.join(root, dir), dir === '' ? PRIVATE_FILES : null));
+  }
+  return checks;
+}
+
+function checkNode(): DoctorCheck {
+  const major = parseInt(process.versions.node.split('.')[0]!, 10);
+  if (major >= RECOMMENDED_NODE_MAJOR) return { name: 'Node.js', status: 'ok', detail: process.version };
+  return {
+    name: 'Node.js', status: major >= MIN_NODE_MAJOR ? 'warn' : 'fail',
+    detail: `${process.version} — cli-tunnel is built for ${RECOMMENDED_NODE_MAJOR} LTS`,
+    fix: `nvm install ${RECOMMENDED_NODE_MAJOR}`,
+  };
+}
+
+/** Load node-pty and run a short-lived process in it — catches missing prebuilds and spawn-helper permissions */
+async function checkNodePty(): Promise<DoctorCheck> {
+  const fix = 'npm rebuild node-pty';
+  let nodePty: typeof import('node-pty');
+  try {
+    nodePty = await import('node-pty');
+  } catch (err) {
+    return { name: 'node-pty', status: 'fail', detail: `cannot load: ${(err as Error).message.split('\n')[0]}`, fix };
+  }
+  try {
+    const exitCode = await new Promise<number>((resolve, reject) => {
+      const proc = nodePty.spawn(process.execPath, ['-e', ''], { cols: 80, rows: 24, cwd: os.tmpdir(), env: { PATH: process.env.PATH ?? '' } });
+      const timer = setTimeout(() => { try { proc.kill(); } catch {} reject(new Error('test process did not exit within 5s')); }, 5000);
+      proc.onExit(({ exitCode: code }) => { clearTimeout(timer); resolve(code); });
+    });
+    if (exitCode !== 0) return { name: 'node-pty', status: 'fail', detail: `test process exited with code ${exitCode}`, fix };
+  } catch (err) {
+    return { name: 'node-pty', status: 'fail', detail: `cannot spawn: ${(err as Error).message.split('\n')[0]}`, fix };
+  }
+  return { name: 'node-pty', status: 'ok', detail: 'loads and spawns' };
+}
+
+/** Writable, and on POSIX not open to other users — nor are the private files in it (null: every file) */
+function checkDirectory(name: string, dir: string, privateFiles: string[] | null): DoctorCheck {
+  const stat = fs.statSync(dir, { throwIfNoEntry: false });
+  if (!stat) return { name, status: 'ok', detail: 'not created yet' };
+  if (!stat.isDirectory()) return { name, status: 'fail', detail: 'not a directory', fix: `rm ${dir}` };
+  try {
+    fs.accessSync(dir, fs.constants.W_OK);
+  } catch {
+    return { name, status: 'fail', detail: 'not writable', fix: `chown -R ${os.userInfo().username} ${dir}` };
+  }
+  // Windows has no mode bits worth checking — the profile directory is already per-user
+  if (process.platform === 'win32') return { name, status: 'ok', detail: 'writable' };
+  if (stat.mode & 0o077) {
+    return { name, status: 'warn', detail: `mode ${(stat.mode & 0o777).toString(8)} — other users can look inside`, fix: `chmod 700 ${dir}` };
+  }
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(f => !privateFiles || privateFiles.includes(f));
+  } catch {
+    files = [];
+  }
+  const open = files.filter(f => (fs.statSync(path.join(dir, f), { throwIfNoEntry: false })?.mode ?? 0) & 0o077);
+  if (open.length > 0) {
+    return { name, status: 'warn', detail: `readable by other users: ${open.join(', ')}`, fix: `chmod 600 ${open.map(f => path.join(dir, f)).join(' ')}` };
+  }
+  return { name, status: 'ok', detail: 'private' };
+}
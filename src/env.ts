@@ -0,0 +1,9 @@
+// F-07: Minimal env for subprocess calls (git, devtunnel) — only PATH and essentials
+export function getSubprocessEnv(): Record<string, string> {
+  const safe: Record<string, string> = {};
+  const allow = ['PATH', 'PATHEXT', 'HOME', 'USERPROFILE', 'TEMP', 'TMP', 'TMPDIR', 'SHELL', 'COMSPEC',
+    'SYSTEMROOT', 'WINDIR', 'PROGRAMFILES', 'PROGRAMFILES(X86)', 'APPDATA', 'LOCALAPPDATA',
+    'LANG', 'LC_ALL', 'TERM'];
+  for (const k of allow) { if (process.env[k]) safe[k] = process.env[k]!; }
+  return safe;
+}
@@ -19,13 +19,22 @@
 import path from 'node:path';
 import fs from 'node:fs';
 import crypto from 'node:crypto';
-import { execSync, execFileSync, spawn } from 'node:child_process';
-import { fileURLToPath } from 'node:url';
-import http from 'node:http';
-import readline from 'node:readline';
-import { WebSocketServer, WebSocket } from 'ws';
 import os from 'node:os';
-import { redactSecrets } from './redact.js';
+import { loadConfig, parseSetFlag, formatConfig, CONFIG_KEYS, type ConfigKey, type ConfigOverride } from './config.js';
+import { generateTotpSecret, matchTotp, otpauthUrl, loadTotpSecret, saveTotpSecret } from './totp.js';
+import { BOLD, RESET, DIM, GREEN, YELLOW, askUser, loadQr } from './tty.js';
+import {
+  verifyAuditLog, queryAuditLog, followAuditLog, matchesAuditQuery, parseAuditTime,
+  createAuditFormatter, AUDIT_FORMATS, type AuditFormat, type AuditQuery,
+} from './audit.js';
+import { DAEMON_ENV, daemonSocketPath, attachToDaemon, startDaemon, listDaemonSessions } from './daemon.js';
+import { readCast, playCast, type Cast } from './asciicast.js';
+import { checkSessionFiles, listSessions, orphanedTunnels, stopProcess, sessionAuthHeaders } from './discovery.js';
+import { parseBridgeUrl, pairWithCode, requestTicket, connectTerminal } from './connect.js';
+import { keySequence } from './automation.js';
+import { createTunnelProvider, type TunnelSession } from './tunnel.js';
+import { runDoctor } from './doctor.js';
+import { createTunnelSession, createHub, createPlayback, type BridgeSession, type Hub } from './bridge.js';
 
 // F-15: Global error handlers to prevent unclean crashes
 process.on('uncaughtException', (err) => {
@@ -37,37 +46,155 @@ process.on('unhandledRejection', (reason) => {
   process.exit(1);
 });
 
-function askUser(question: string): Promise<string> {
-  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-  return new Promise((resolve) => {
-    rl.question(question, (answer) => { rl.close(); resolve(answer.trim().toLowerCase()); });
-  });
-}
-
-const BOLD = '\x1b[1m';
-const RESET = '\x1b[0m';
-const DIM = '\x1b[2m';
-const GREEN = '\x1b[32m';
-const YELLOW = '\x1b[33m';
-
 // ─── Parse args ─────────────────────────────────────────────
 const args = process.argv.slice(2);
+// Set by `--daemon` when it re-runs us in the background — not passed on to the PTY
+const daemonId = process.env[DAEMON_ENV] || '';
+delete process.env[DAEMON_ENV];
+
+// `cli-tunnel play <file.cast>` — replay a recording instead of running a command
+const playMode = args[0] === 'play';
+// `cli-tunnel config print` — show the effective configuration
+const configMode = args[0] === 'config';
+// `cli-tunnel audit [verify]` — query the audit log or check its hash chains
+const auditMode = args[0] === 'audit';
+// `cli-tunnel attach [name]` — connect this terminal to a background daemon
+const attachMode = args[0] === 'attach';
+// `cli-tunnel totp setup|remove` — enrol an authenticator app as a second factor
+const totpMode = args[0] === 'totp';
+// `cli-tunnel ls` — sessions on this machine and the tunnel provider's list
+const lsMode = args[0] === 'ls';
+// `cli-tunnel kill <name|id>` — stop a session through its normal cleanup
+const killMode = args[0] === 'kill';
+// `cli-tunnel clean` — session files, daemon sockets and tunnels left by sessions that crashed
+const cleanMode = args[0] === 'clean';
+// `cli-tunnel doctor` — check what a session needs before starting one
+const doctorMode = args[0] === 'doctor';
+// `cli-tunnel connect <url|name>` — this terminal as a client of a bridge, like the phone
+const connectMode = args[0] === 'connect';
+const subcommand = playMode || configMode || auditMode || attachMode || totpMode || lsMode || killMode || cleanMode || doctorMode || connectMode;
+if (subcommand) args.shift();
+
+// Our flags come before the command: from its name on (or after `--`) every
+// argument is the command's, even ones that look like ours. Subcommands run
+// no command, so their flags may come anywhere.
+const valueFlags = new Set(['--port', '--name', '--provider', '--ssh-target', '--ssh-remote-port', '--tunnel-command', '--public-url', '--record', '--size-policy', '--size', '--ttl']);
+const boolFlags = new Set(['--local', '--tunnel', '--replay', '--no-replay', '--no-wait', '--daemon', '--token-url', '--help', '-h']);
+// Playback flags are only ours in play mode — otherwise they belong to the wrapped command
+if (playMode) {
+  valueFlags.add('--speed');
+  valueFlags.add('--idle-limit');
+  boolFlags.add('--serve');
+}
+if (configMode || lsMode || doctorMode) boolFlags.add('--json');
+if (cleanMode) boolFlags.add('--dry-run');
+if (connectMode) {
+  valueFlags.add('--code');
+  valueFlags.add('--escape');
+}
+if (auditMode) {
+  for (const f of ['--session', '--since', '--until', '--src', '--type', '--reason', '--conn', '--format']) valueFlags.add(f);
+  boolFlags.add('--follow');
+  boolFlags.add('-f');
+}
+const flagValues = new Map<string, string>();
+const switches = new Set<string>();
+const setFlags: string[] = []; // --set key=value (repeatable)
+const ownArgs: string[] = []; // our flags as given — --daemon re-runs us with them
+const cmdArgs: string[] = [];
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i]!;
+  if (!subcommand && cmdArgs.length > 0) {
+    cmdArgs.push(arg);
+    continue;
+  }
+  if (arg === '--') {
+    cmdArgs.push(...args.slice(i + 1));
+    break;
+  }
+  if (arg === '--set' || valueFlags.has(arg)) {
+    const value = args[++i];
+    if (value === undefined) continue;
+    if (arg === '--set') setFlags.push(value);
+    else flagValues.set(arg, value);
+    ownArgs.push(arg, value);
+    continue;
+  }
+  if (boolFlags.has(arg)) {
+    switches.add(arg);
+    ownArgs.push(arg);
+    continue;
+  }
+  if (!subcommand && arg.startsWith('-')) {
+    console.error(`Unknown option ${arg} — cli-tunnel's options go before the command (see cli-tunnel --help).`);
+    console.error(`To run a command whose name starts with -, put -- in front of it.`);
+    process.exit(1);
+  }
+  cmdArgs.push(arg);
+}
+const playServe = playMode && switches.has('--serve');
 
-if (args.includes('--help') || args.includes('-h')) {
+if (switches.has('--help') || switches.has('-h')) {
   console.log(`
 ${BOLD}cli-tunnel${RESET} — Tunnel any CLI app to your phone
 
 ${BOLD}Usage:${RESET}
   cli-tunnel [options] <command> [args...]
   cli-tunnel                              # hub mode — sessions dashboard only
+  cli-tunnel --daemon [options] <command> # run in the background
+  cli-tunnel -- <command> [args...]       # run a command named like a subcommand
+  cli-tunnel ls [--json]                  # sessions on this machine and their tunnels
+  cli-tunnel kill <name|id>               # stop a session
+  cli-tunnel clean [--dry-run]            # remove what crashed sessions left behind
+  cli-tunnel doctor [--json]              # check node-pty, devtunnel, Node and permissions
+  cli-tunnel attach [name]                # reconnect this terminal to a daemon
+  cli-tunnel connect <url|name>           # join a session from this terminal, like the phone
+  cli-tunnel play [options] <file.cast>   # replay a recording
+  cli-tunnel config print [--json]        # effective config and where each value came from
+  cli-tunnel audit [filters] [--follow]   # list audit events
+  cli-tunnel audit verify                 # check the audit log for gaps or edits
+  cli-tunnel totp setup                   # require an authenticator code for remote access
+  cli-tunnel totp remove                  # stop requiring one
 
 ${BOLD}Options:${RESET}
-  --local            Disable devtunnel (localhost only)
+  --local            Disable the tunnel (localhost only)
   --port <n>         Bridge port (default: random)
   --name <name>      Session name (shown in dashboard)
+  --provider <name>  Tunnel provider: devtunnel (default), ssh, command, local
+  --ssh-target <t>   ssh provider: reverse-tunnel host, e.g. nokey@localhost.run
+  --ssh-remote-port <n>  ssh provider: remote port to bind (default: 80)
+  --tunnel-command <cmd> command provider: tunnel CLI to run, {port} is substituted
+  --public-url <url> ssh/command provider: fixed public URL instead of scraping output
+  --record <file>    Record the (redacted) session to an asciinema v2 .cast file
+  --size-policy <p>  Who sets the PTY size: local (default), smallest, active, fixed
+  --size <CxR>       PTY size for --size-policy fixed (default: 120x40)
+  --ttl <minutes>    Session lifetime before remote access closes (default: 240)
+  --token-url        Print URLs with the token in them instead of pairing codes
+  --daemon           Run in the background; reconnect with cli-tunnel attach, detach with Ctrl+]
+  --set <key=value>  Override a config value (repeatable), e.g. --set maxConnections=3
   --replay           (deprecated, screen buffer is always on)
   --help, -h         Show this help
 
+${BOLD}Play options:${RESET}
+  --speed <n>        Playback speed multiplier (default: 1)
+  --idle-limit <s>   Cap pauses between events to <s> seconds
+  --serve            Serve the recording to the remote UI (seek + speed controls)
+
+${BOLD}Connect options:${RESET}
+  --code <code>      Pairing code for a URL without ?token= (asked for when missing)
+  --escape <key>     Key that disconnects (default: ctrl-])
+
+${BOLD}Audit options:${RESET}
+  --session <name|id>  Only events from this session (name or session id)
+  --since <time>     ISO date/time or relative: 30m, 2h, 7d
+  --until <time>     ISO date/time or relative
+  --src <ip>         Only events from this remote address
+  --type <type>      Event type: pty_input, policy, trigger, session, rejected, connect, disconnect
+  --reason <reason>  Rejection reason, e.g. viewer-read-only, ws-rate-limit
+  --conn <id>        Connection id (prefix match)
+  --format <fmt>     table (default), json (one record per line) or csv
+  --follow, -f       Keep printing new events as they are written
+
 ${BOLD}Examples:${RESET}
   cli-tunnel copilot --yolo               # tunnel + run copilot
   cli-tunnel copilot --model claude-sonnet-4 --agent squad
@@ -76,860 +203,480 @@ ${BOLD}Examples:${RESET}
   cli-tunnel --name wizard copilot        # named session
   cli-tunnel --local copilot --yolo       # localhost only, no devtunnel
   cli-tunnel                              # hub: see all active sessions
-
-Devtunnel is enabled by default. All flags after the command name
-pass through to the underlying app. cli-tunnel's own flags
-(--local, --port, --name) must come before the command.
+  cli-tunnel --record run.cast copilot    # record the session
+  cli-tunnel --daemon --name job copilot  # keep running after the terminal closes
+  cli-tunnel attach job                   # pick it up again (Ctrl+] to detach)
+  cli-tunnel play --speed 2 run.cast      # replay it in this terminal
+  cli-tunnel play --serve run.cast        # replay it on your phone
+  cli-tunnel audit --session wizard --type pty_input --since 2h
+  cli-tunnel ls                           # what is running, and where
+  cli-tunnel kill wizard                  # stop it from another terminal
+  cli-tunnel connect wizard               # join it from another terminal
+  cli-tunnel -- ls -la                    # tunnel ls itself
+
+Devtunnel is enabled by default. cli-tunnel's own flags (--local, --port,
+--name, --provider, ...) must come before the command — everything from the
+command name on, --help included, passes through to the underlying app.
 `);
   process.exit(0);
 }
 
-const hasLocal = args.includes('--local');
-const hasTunnel = !hasLocal;
-const hasReplay = !args.includes('--no-replay');
-const noWait = args.includes('--no-wait');
-const portIdx = args.indexOf('--port');
-const port = (portIdx !== -1 && args[portIdx + 1]) ? parseInt(args[portIdx + 1]!, 10) : 0;
-const nameIdx = args.indexOf('--name');
-const sessionName = (nameIdx !== -1 && args[nameIdx + 1]) ? args[nameIdx + 1]! : '';
-
-// Everything that's not our flags is the command
-const ourFlags = new Set(['--local', '--tunnel', '--port', '--name', '--no-replay', '--no-wait']);
-const cmdArgs: string[] = [];
-let skip = false;
-for (let i = 0; i < args.length; i++) {
-  if (skip) { skip = false; continue; }
-  if (args[i] === '--port' || args[i] === '--name') { skip = true; continue; }
-  if (args[i] === '--local' || args[i] === '--tunnel' || args[i] === '--no-replay' || args[i] === '--no-wait') continue;
-  cmdArgs.push(args[i]!);
+const hasReplay = !switches.has('--no-replay');
+const noWait = switches.has('--no-wait');
+
+// ─── Configuration ──────────────────────────────────────────
+// Dedicated flags are the top layer, above --set
+const flagConfigKeys: Array<[string, ConfigKey]> = [
+  ['--port', 'port'], ['--provider', 'provider'], ['--ssh-target', 'sshTarget'],
+  ['--ssh-remote-port', 'sshRemotePort'], ['--tunnel-command', 'tunnelCommand'], ['--public-url', 'publicUrl'],
+  ['--size-policy', 'sizePolicy'], ['--size', 'fixedSize'], ['--ttl', 'sessionTtlMinutes'],
+  ['--escape', 'connectEscapeKey'],
+];
+const configOverrides: ConfigOverride[] = setFlags.map(parseSetFlag);
+for (const [flag, key] of flagConfigKeys) {
+  if (flagValues.has(flag)) configOverrides.push({ key, value: flagValues.get(flag)!, source: `flag ${flag}` });
 }
+if (switches.has('--local')) configOverrides.push({ key: 'local', value: true, source: 'flag --local' });
+if (switches.has('--token-url')) configOverrides.push({ key: 'tokenUrl', value: true, source: 'flag --token-url' });
 
-// Hub mode — no command, just show sessions dashboard
-const hubMode = cmdArgs.length === 0;
-
-const command = hubMode ? '' : cmdArgs[0]!;
-const commandArgs = hubMode ? [] : cmdArgs.slice(1);
-const cwd = process.cwd();
-
-// ─── Tunnel helpers ─────────────────────────────────────────
-function sanitizeLabel(l: string): string {
-  const clean = l.replace(/[^a-zA-Z0-9_\-=]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '').substring(0, 50);
-  return clean || 'unknown';
+const loadedConfig = loadConfig({ cwd: process.cwd(), overrides: configOverrides });
+if (loadedConfig.errors.length > 0) {
+  console.error(`${BOLD}Invalid configuration:${RESET}\n`);
+  for (const e of loadedConfig.errors) console.error(`${e}\n`);
+  process.exit(1);
 }
+const config = loadedConfig.config;
 
-// F-07: Minimal env for subprocess calls (git, devtunnel) — only PATH and essentials
-function getSubprocessEnv(): Record<string, string> {
-  const safe: Record<string, string> = {};
-  const allow = ['PATH', 'PATHEXT', 'HOME', 'USERPROFILE', 'TEMP', 'TMP', 'TMPDIR', 'SHELL', 'COMSPEC',
-    'SYSTEMROOT', 'WINDIR', 'PROGRAMFILES', 'PROGRAMFILES(X86)', 'APPDATA', 'LOCALAPPDATA',
-    'LANG', 'LC_ALL', 'TERM'];
-  for (const k of allow) { if (process.env[k]) safe[k] = process.env[k]!; }
-  return safe;
+if (configMode) {
+  if (cmdArgs[0] !== 'print') {
+    console.error('Usage: cli-tunnel config print [--json] [--set key=value ...]');
+    process.exit(1);
+  }
+  if (switches.has('--json')) {
+    const out = Object.fromEntries(CONFIG_KEYS.map(k => [k, { value: config[k], source: loadedConfig.sources[k] }]));
+    console.log(JSON.stringify(out, null, 2));
+  } else {
+    console.log(formatConfig(loadedConfig));
+  }
+  process.exit(0);
 }
 
-function getGitInfo(): { repo: string; branch: string } {
-  try {
-    const remote = execSync('git remote get-url origin', { cwd, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() }).trim();
-    const repo = remote.split('/').pop()?.replace('.git', '') || 'unknown';
-    const branch = execSync('git branch --show-current', { cwd, encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() }).trim() || 'unknown';
-    return { repo, branch };
-  } catch {
-    return { repo: path.basename(cwd), branch: 'unknown' };
+const auditDir = path.join(os.homedir(), '.cli-tunnel', 'audit');
+const totpFile = path.join(os.homedir(), '.cli-tunnel', 'totp.json');
+
+if (totpMode) {
+  if (cmdArgs[0] === 'setup') {
+    const secret = generateTotpSecret();
+    if (loadTotpSecret(totpFile)) console.log(`\n${YELLOW}⚠${RESET} This replaces the authenticator enrolled before.`);
+    console.log(`\nScan this with your authenticator app:\n`);
+    (await loadQr())?.generate(otpauthUrl(secret, `${os.userInfo().username}@${os.hostname()}`), { small: true }, (code: string) => console.log(code));
+    console.log(`  Or enter this key by hand: ${BOLD}${secret.match(/.{1,4}/g)!.join(' ')}${RESET}\n`);
+    // Nothing is saved until the app shows a matching code — a half-done setup can't lock you out
+    const code = await askUser('  Code shown in the app: ');
+    if (matchTotp(secret, code.replace(/\s/g, '')) === null) {
+      console.error(`${YELLOW}✗${RESET} That code doesn't match — nothing was saved. Run cli-tunnel totp setup again.`);
+      process.exit(1);
+    }
+    saveTotpSecret(totpFile, secret);
+    console.log(`${GREEN}✓${RESET} Saved to ${totpFile} — sessions started from now on ask for a code before remote access.`);
+    process.exit(0);
   }
+  if (cmdArgs[0] === 'remove') {
+    try {
+      fs.unlinkSync(totpFile);
+      console.log(`${GREEN}✓${RESET} Removed — sessions started from now on don't ask for a code.`);
+    } catch {
+      console.log('No authenticator is enrolled.');
+    }
+    process.exit(0);
+  }
+  console.error('Usage: cli-tunnel totp setup | cli-tunnel totp remove');
+  process.exit(1);
 }
 
-// ─── Security: Session token for WebSocket auth ────────────
-const sessionToken = crypto.randomUUID();
-
-// ─── Session file registry (IPC via filesystem) ────────────
-const sessionsDir = path.join(os.homedir(), '.cli-tunnel', 'sessions');
-fs.mkdirSync(sessionsDir, { recursive: true, mode: 0o700 });
-let sessionFilePath: string | null = null;
-
-function writeSessionFile(tunnelId: string, tunnelUrl: string, port: number): void {
-  sessionFilePath = path.join(sessionsDir, `${tunnelId}.json`);
-  const data = JSON.stringify({
-    token: sessionToken, name: sessionName || command,
-    tunnelId, tunnelUrl, port, hubMode,
-    machine: os.hostname(), pid: process.pid,
-    createdAt: new Date().toISOString(),
+if (auditMode && cmdArgs[0] !== 'verify') {
+  if (cmdArgs.length > 0) {
+    console.error('Usage: cli-tunnel audit [--session <s>] [--since <t>] [--until <t>] [--src <ip>] [--type <t>] [--reason <r>] [--conn <id>] [--format table|json|csv] [--follow]\n       cli-tunnel audit verify');
+    process.exit(1);
+  }
+  const query: AuditQuery = {};
+  for (const [flag, key] of [['--session', 'session'], ['--src', 'src'], ['--type', 'type'], ['--reason', 'reason'], ['--conn', 'conn']] as const) {
+    if (flagValues.has(flag)) query[key] = flagValues.get(flag)!;
+  }
+  for (const [flag, key] of [['--since', 'since'], ['--until', 'until']] as const) {
+    if (!flagValues.has(flag)) continue;
+    const date = parseAuditTime(flagValues.get(flag)!);
+    if (!date) {
+      console.error(`${flag}: expected an ISO date/time or a duration like 30m, 2h, 7d — got "${flagValues.get(flag)}"`);
+      process.exit(1);
+    }
+    query[key] = date;
+  }
+  const format = (flagValues.get('--format') || 'table') as AuditFormat;
+  if (!AUDIT_FORMATS.includes(format)) {
+    console.error(`--format must be one of: ${AUDIT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+  const formatter = createAuditFormatter(format);
+  const header = formatter.header();
+  if (header) console.log(header);
+  for (const record of queryAuditLog(auditDir, query)) console.log(formatter.row(record));
+  if (!switches.has('--follow') && !switches.has('-f')) process.exit(0);
+  followAuditLog(auditDir, (record) => {
+    if (matchesAuditQuery(record, query)) console.log(formatter.row(record));
   });
-  fs.writeFileSync(sessionFilePath, data, { mode: 0o600 });
+  // Keep following until Ctrl+C
+  process.on('SIGINT', () => process.exit(0));
+  await new Promise(() => {});
 }
 
-function removeSessionFile(): void {
-  if (sessionFilePath) { try { fs.unlinkSync(sessionFilePath); } catch {} }
+if (auditMode) {
+  const result = verifyAuditLog(auditDir);
+  for (const p of result.problems) console.log(`  ${YELLOW}✗${RESET} ${p.file}:${p.line}: ${p.message}`);
+  for (const c of result.truncated) console.log(`  ${DIM}· chain ${c} starts mid-way — earlier records were removed by retention${RESET}`);
+  const summary = `${result.records} records in ${result.chains} chains across ${result.files} files (${auditDir})`;
+  if (result.problems.length > 0) {
+    console.log(`\n${YELLOW}✗ ${result.problems.length} problem(s)${RESET} — ${summary}`);
+    process.exit(1);
+  }
+  console.log(`${GREEN}✓${RESET} Audit log intact — ${summary}`);
+  process.exit(0);
 }
 
-function readLocalSessions(): Array<{ token: string; name: string; tunnelId: string; tunnelUrl: string; port: number; hubMode: boolean }> {
+const sessionsDir = path.join(os.homedir(), '.cli-tunnel', 'sessions');
+const daemonsDir = path.join(os.homedir(), '.cli-tunnel', 'daemons');
+
+if (attachMode) {
+  const target = cmdArgs[0];
+  const daemons = listDaemonSessions(sessionsDir);
+  const matches = target ? daemons.filter(d => d.name === target || d.sessionId === target) : daemons;
+  if (matches.length !== 1) {
+    if (matches.length === 0) console.error(target ? `No running daemon named "${target}".` : 'No running daemons.');
+    else console.error(target ? `"${target}" matches ${matches.length} daemons — attach by id instead:` : 'Several daemons are running — pick one:');
+    for (const d of matches.length > 0 ? matches : daemons) console.error(`  ${d.sessionId}  ${d.name}`);
+    process.exit(1);
+  }
+  const daemon = matches[0]!;
+  let result;
   try {
-    return fs.readdirSync(sessionsDir)
-      .filter(f => f.endsWith('.json'))
-      .map(f => { try { return JSON.parse(fs.readFileSync(path.join(sessionsDir, f), 'utf-8')); } catch { return null; } })
-      .filter((s): s is any => s !== null && !s.hubMode);
-  } catch { return []; }
-}
-
-// ─── F-18: Session TTL (4 hours) ───────────────────────────
-const SESSION_TTL = 4 * 60 * 60 * 1000; // 4 hours
-const sessionCreatedAt = Date.now();
-
-// ─── F-02: One-time ticket store for WebSocket auth ────────
-const tickets = new Map<string, { expires: number }>();
-
-// #30: Ticket GC — clean expired tickets every 30s
-setInterval(() => {
-  const now = Date.now();
-  for (const [id, t] of tickets) {
-    if (t.expires < now) tickets.delete(id);
+    result = await attachToDaemon(daemon.socket);
+  } catch (err) {
+    console.error(`Cannot attach to ${daemon.name}: ${(err as Error).message}`);
+    process.exit(1);
   }
-}, 30000);
-
-// ─── Security: Redact secrets from replay events ────────────
-
-// ─── Bridge server ──────────────────────────────────────────
-const connections = new Map<string, WebSocket>();
-// Hub relay: WS connections from hub to local sessions (for grid view)
-const relayConnections = new Map<number, WebSocket>(); // port → ws to session
-let localResizeAt = 0; // Timestamp of last local terminal resize
-
-// #10: Session TTL enforcement — periodically close expired connections
-setInterval(() => {
-  if (Date.now() - sessionCreatedAt > SESSION_TTL) {
-    for (const [id, ws] of connections) {
-      ws.close(1000, 'Session expired');
-      connections.delete(id);
-    }
+  if (result.reason === 'detached') {
+    console.log(`\r\n${DIM}Detached — ${daemon.name} is still running. cli-tunnel attach ${daemon.sessionId} to return.${RESET}`);
+    process.exit(0);
   }
-}, 60000);
-
-// ─── F-8: Per-IP rate limiter ───────────────────────────────
-const rateLimits = new Map<string, { count: number; resetAt: number }>();
-const ticketRateLimits = new Map<string, { count: number; resetAt: number }>();
-
-function checkRateLimit(ip: string, map: Map<string, { count: number; resetAt: number }>, maxRequests: number): boolean {
-  const now = Date.now();
-  const entry = map.get(ip);
-  if (!entry || entry.resetAt < now) {
-    map.set(ip, { count: 1, resetAt: now + 60000 });
-    return true;
+  if (result.reason === 'exited') {
+    console.log(`\r\n${DIM}Process exited (code ${result.code}).${RESET}`);
+    process.exit(result.code ?? 0);
   }
-  entry.count++;
-  return entry.count <= maxRequests;
+  console.log(`\r\n${DIM}Connection to the daemon was lost.${RESET}`);
+  process.exit(1);
 }
 
-// Clean up rate limit maps every 60s
-setInterval(() => {
-  const now = Date.now();
-  for (const [ip, entry] of rateLimits) { if (entry.resetAt < now) rateLimits.delete(ip); }
-  for (const [ip, entry] of ticketRateLimits) { if (entry.resetAt < now) ticketRateLimits.delete(ip); }
-}, 60000);
-
-const server = http.createServer(async (req, res) => {
-  const clientIp = req.socket.remoteAddress || 'unknown';
-
-  // F-8: Rate limiting for HTTP endpoints
-  if (req.url?.startsWith('/api/')) {
-    const isTicket = req.url === '/api/auth/ticket';
-    if (isTicket) {
-      if (!checkRateLimit(clientIp, ticketRateLimits, 10)) {
-        res.writeHead(429, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Too Many Requests' }));
-        return;
-      }
-    } else {
-      if (!checkRateLimit(clientIp, rateLimits, 30)) {
-        res.writeHead(429, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Too Many Requests' }));
-        return;
-      }
-    }
+// ─── Session management ─────────────────────────────────────
+// ls, kill and clean work from the session files every bridge writes, plus
+// the tunnel provider's list — the same sources as the hub dashboard
+if (lsMode || cleanMode) {
+  if (cmdArgs.length > 0) {
+    console.error(lsMode ? 'Usage: cli-tunnel ls [--json]' : 'Usage: cli-tunnel clean [--dry-run]');
+    process.exit(1);
   }
-  // F-18: Session expiry check for API routes
-  if (!hubMode && req.url?.startsWith('/api/') && Date.now() - sessionCreatedAt > SESSION_TTL) {
-    res.writeHead(401, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Session expired' }));
-    return;
-  }
-
-  // F-02: Ticket endpoint — exchange session token for one-time WS ticket
-  if (req.url === '/api/auth/ticket' && req.method === 'POST') {
-    const auth = req.headers.authorization?.replace('Bearer ', '');
-    if (auth !== sessionToken) { res.writeHead(401); res.end(); return; }
-    const ticket = crypto.randomUUID();
-    const expiresAt = Date.now() + 60000;
-    tickets.set(ticket, { expires: expiresAt });
-    res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ ticket, expires: expiresAt }));
-    return;
-  }
-
-  // F-01: Session token check for all API routes
-  if (req.url?.startsWith('/api/')) {
-    const reqUrl = new URL(req.url, `http://${req.headers.host}`);
-    const authToken = req.headers.authorization?.replace('Bearer ', '') || reqUrl.searchParams.get('token');
-    if (authToken !== sessionToken) {
-      res.writeHead(401, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Unauthorized' }));
-      return;
-    }
+  const files = await checkSessionFiles(sessionsDir);
+  // Only devtunnel can list — a missing or logged-out CLI only loses the remote entries
+  const provider = createTunnelProvider(config.provider);
+  let tunnels: TunnelSession[] = [];
+  let tunnelError = '';
+  try {
+    tunnels = provider.list();
+  } catch (err) {
+    tunnelError = (err as NodeJS.ErrnoException).code === 'ENOENT' ? 'not installed' : (err as Error).message.split('\n')[0]!;
   }
 
-  // Hub ticket proxy — fetch ticket from local session on behalf of grid client
-  // F-03: Only hub mode sessions can use this endpoint (hub token already validated above)
-  if (hubMode && req.url?.startsWith('/api/proxy/ticket/') && req.method === 'POST') {
-    const ticketPathMatch = req.url?.match(/^\/api\/proxy\/ticket\/(\d+)$/);
-    if (!ticketPathMatch) { res.writeHead(400, { 'Content-Type': 'application/json' }); res.end(JSON.stringify({ error: 'Invalid port' })); return; }
-    const targetPort = parseInt(ticketPathMatch[1], 10);
-    if (!Number.isFinite(targetPort) || targetPort < 1 || targetPort > 65535) {
-      res.writeHead(400, { 'Content-Type': 'application/json' }); res.end(JSON.stringify({ error: 'Invalid port' })); return;
+  if (lsMode) {
+    const rows = listSessions(files, tunnels, os.hostname());
+    if (switches.has('--json')) {
+      console.log(JSON.stringify(rows, null, 2));
+      process.exit(0);
     }
-    // Find token for this port from session files
-    const localSessions = readLocalSessions();
-    const session = localSessions.find(s => s.port === targetPort);
-    if (!session) { res.writeHead(404, { 'Content-Type': 'application/json' }); res.end(JSON.stringify({ error: 'Session not found' })); return; }
-    try {
-      const ticketResp = await fetch(`http://127.0.0.1:${targetPort}/api/auth/ticket`, {
-        method: 'POST', headers: { 'Authorization': `Bearer ${session.token}` },
-        signal: AbortSignal.timeout(3000),
-      });
-      if (!ticketResp.ok) throw new Error('Ticket request failed');
-      const ticketData = await ticketResp.json() as { ticket: string };
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ ticket: ticketData.ticket, port: targetPort }));
-    } catch {
-      res.writeHead(502, { 'Content-Type': 'application/json' }); res.end(JSON.stringify({ error: 'Session unreachable' })); return;
+    if (rows.length === 0) console.log('No sessions.');
+    else {
+      const cols = (name: string, id: string, kind: string, status: string, port: string, pid: string, url: string) =>
+        `${name.padEnd(16)}  ${id.padEnd(12)}  ${kind.padEnd(7)}  ${status.padEnd(7)}  ${port.padEnd(5)}  ${pid.padEnd(7)}  ${url}`;
+      console.log(cols('NAME', 'ID', 'KIND', 'STATUS', 'PORT', 'PID', 'URL'));
+      for (const r of rows) {
+        const kind = r.kind === 'tunnel' ? `${r.kind} (${r.machine})` : r.kind;
+        console.log(cols((r.name || '-').slice(0, 16), r.id, kind, r.status, String(r.port), String(r.pid ?? '-'), r.url || '-'));
+      }
     }
-    return;
+    if (rows.some(r => r.status === 'stale')) console.log(`\n${DIM}Stale sessions were left by a process that is gone — cli-tunnel clean removes them.${RESET}`);
+    if (tunnelError && provider.name === 'devtunnel') console.log(`\n${DIM}devtunnel tunnels not listed: ${tunnelError}${RESET}`);
+    process.exit(0);
   }
 
-  // Sessions API
-  if ((req.url === '/api/sessions' || req.url?.startsWith('/api/sessions?')) && req.method === 'GET') {
-    try {
-      const output = execFileSync('devtunnel', ['list', '--labels', 'cli-tunnel', '--json'], { encoding: 'utf-8', timeout: 10000, stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
-      const data = JSON.parse(output);
-      const localMachine = os.hostname();
-      const localSessions = hubMode ? readLocalSessions() : [];
-      const tokenMap = new Map(localSessions.map(s => [s.tunnelId, s.token]));
-
-      const sessions = (data.tunnels || []).map((t: any) => {
-        const labels = t.labels || [];
-        const id = t.tunnelId?.replace(/\.\w+$/, '') || t.tunnelId;
-        const cluster = t.tunnelId?.split('.').pop() || 'euw';
-        const portLabel = labels.find((l: string) => l.startsWith('port-'));
-        const p = portLabel ? parseInt(portLabel.replace('port-', ''), 10) : 3456;
-        const machine = labels[4] || 'unknown';
-        const session: any = {
-          id, tunnelId: t.tunnelId,
-          name: labels[1] || 'unnamed',
-          repo: labels[2] || 'unknown',
-          branch: (labels[3] || 'unknown').replace(/_/g, '/'),
-          machine,
-          online: (t.hostConnections || 0) > 0,
-          port: p,
-          url: `https://${id}-${p}.${cluster}.devtunnels.ms`,
-          isLocal: machine === localMachine,
-        };
-        // F-05: Never expose raw tokens in API responses — only indicate availability
-        const baseId = t.tunnelId?.split('.')[0] || t.tunnelId;
-        const token = tokenMap.get(baseId) || tokenMap.get(t.tunnelId);
-        if (token) session.hasToken = true;
-        return session;
-      });
-      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
-      res.end(JSON.stringify({ sessions }));
-    } catch {
-      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
-      res.end(JSON.stringify({ sessions: [] }));
+  const dryRun = switches.has('--dry-run');
+  const verb = dryRun ? 'Would remove' : 'Removed';
+  let cleaned = 0;
+  for (const s of files.filter(f => f.stale)) {
+    if (!dryRun) { try { fs.unlinkSync(s.file); } catch { continue; } }
+    console.log(`  ${GREEN}✓${RESET} ${verb} session file ${path.basename(s.file)} ${DIM}(${s.name || s.tunnelId}, pid ${s.pid ?? '-'})${RESET}`);
+    cleaned++;
+  }
+  // Daemon sockets outlive a daemon that was killed with SIGKILL (Windows pipes go with the process)
+  const liveSockets = new Set(files.filter(f => !f.stale && f.socket).map(f => f.socket));
+  let daemonFiles: string[] = [];
+  try { daemonFiles = fs.readdirSync(daemonsDir).filter(f => f.endsWith('.sock')); } catch {}
+  for (const f of daemonFiles) {
+    const socket = path.join(daemonsDir, f);
+    if (liveSockets.has(socket)) continue;
+    if (!dryRun) { try { fs.unlinkSync(socket); } catch { continue; } }
+    console.log(`  ${GREEN}✓${RESET} ${verb} daemon socket ${f}`);
+    cleaned++;
+  }
+  for (const t of orphanedTunnels(tunnels, files.filter(f => !f.stale))) {
+    // F-05: the same ownership check as deleting a session from the hub
+    if (!provider.isOwnedByThisMachine(t.id)) continue;
+    if (!dryRun && !provider.delete(t.id)) {
+      console.log(`  ${YELLOW}⚠${RESET} Could not delete tunnel ${t.id} (${t.name})`);
+      continue;
     }
-    return;
+    console.log(`  ${GREEN}✓${RESET} ${dryRun ? 'Would delete' : 'Deleted'} tunnel ${t.id} ${DIM}(${t.name}, port ${t.port})${RESET}`);
+    cleaned++;
   }
+  if (tunnelError && provider.name === 'devtunnel') console.log(`  ${DIM}Tunnels not checked — devtunnel: ${tunnelError}${RESET}`);
+  if (cleaned === 0) console.log('Nothing to clean up.');
+  else if (dryRun) console.log(`\n${DIM}Dry run — nothing was removed.${RESET}`);
+  process.exit(0);
+}
 
-  // Delete session
-  // F-05: Only allow deleting tunnels owned by this machine
-  if (req.url?.startsWith('/api/sessions/') && req.method === 'DELETE') {
-    const tunnelId = req.url.replace('/api/sessions/', '').replace(/\.\w+$/, '');
-    if (!/^[a-zA-Z0-9._-]+$/.test(tunnelId)) {
-      res.writeHead(400, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
-      res.end(JSON.stringify({ error: 'Invalid tunnel ID' }));
-      return;
-    }
-    // Verify the tunnel belongs to this machine before allowing delete
-    try {
-      const verifyOut = execFileSync('devtunnel', ['show', tunnelId, '--json'], { encoding: 'utf-8', timeout: 10000, stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
-      const verifyData = JSON.parse(verifyOut);
-      const labels = verifyData.tunnel?.labels || [];
-      const tunnelMachine = labels[4] || '';
-      if (tunnelMachine !== os.hostname()) {
-        res.writeHead(403, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
-        res.end(JSON.stringify({ error: 'Cannot delete tunnels from other machines' }));
-        return;
-      }
-    } catch {
-      // If we can't verify ownership, deny the delete
-      res.writeHead(403, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
-      res.end(JSON.stringify({ error: 'Cannot verify tunnel ownership' }));
-      return;
-    }
-    try {
-      execFileSync('devtunnel', ['delete', tunnelId, '--force'], { encoding: 'utf-8', timeout: 10000, stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
-      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
-      res.end(JSON.stringify({ deleted: true }));
-    } catch {
-      res.writeHead(200, { 'Content-Type': 'application/json', 'X-Frame-Options': 'DENY', 'X-Content-Type-Options': 'nosniff' });
-      res.end(JSON.stringify({ deleted: false }));
-    }
-    return;
+if (killMode) {
+  const target = cmdArgs[0];
+  if (!target || cmdArgs.length > 1) {
+    console.error('Usage: cli-tunnel kill <name|id>');
+    process.exit(1);
+  }
+  const live = (await checkSessionFiles(sessionsDir)).filter(s => !s.stale);
+  const matches = live.filter(s => s.name === target || s.sessionId === target || s.tunnelId === target);
+  if (matches.length !== 1) {
+    if (matches.length === 0) console.error(`No running session named "${target}" — see cli-tunnel ls.`);
+    else console.error(`"${target}" matches ${matches.length} sessions — kill by id instead:`);
+    for (const s of matches) console.error(`  ${s.sessionId || s.tunnelId}  ${s.name}`);
+    process.exit(1);
   }
+  const s = matches[0]!;
+  const label = s.name || s.sessionId || s.tunnelId;
+  // A live pid whose port doesn't answer may have been reused by an unrelated process
+  if (s.pid === undefined || !s.online) {
+    console.error(`Cannot stop ${label}: ${s.pid === undefined ? 'its session file has no pid' : `nothing answers on port ${s.port}`}.`);
+    process.exit(1);
+  }
+  if (!(await stopProcess(s.pid))) {
+    console.error(`${label} (pid ${s.pid}) is still running after SIGTERM — kill -9 ${s.pid}, then cli-tunnel clean.`);
+    process.exit(1);
+  }
+  // Windows has no SIGTERM handler to run the cleanup — the file may still be there
+  try { fs.unlinkSync(s.file); } catch {}
+  console.log(`${GREEN}✓${RESET} Stopped ${label} (pid ${s.pid})`);
+  process.exit(0);
+}
 
-  // Static files
-  const uiDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../remote-ui');
-  // #18: Guard against malformed URI encoding
-  let decodedUrl: string;
-  try {
-    // Strip query string before resolving file path
-    const urlPath = (req.url || '/').split('?')[0]!;
-    decodedUrl = decodeURIComponent(urlPath);
-  } catch {
-    res.writeHead(400); res.end(); return;
-  }
-  if (decodedUrl.includes('..')) { res.writeHead(400); res.end(); return; }
-  let filePath = path.resolve(uiDir, decodedUrl === '/' ? 'index.html' : decodedUrl.replace(/^\//, ''));
-  if (!filePath.startsWith(uiDir)) { res.writeHead(403); res.end(); return; }
-  // #2: EISDIR guard — check if path is a directory before createReadStream
+if (connectMode) {
+  const target = cmdArgs[0];
+  if (!target || cmdArgs.length > 1) {
+    console.error('Usage: cli-tunnel connect [--code <pairing code>] [--escape <key>] <url|name>');
+    process.exit(1);
+  }
+  let baseUrl: string;
+  let headers: Record<string, string>;
+  let label: string;
   try {
-    const stat = fs.statSync(filePath);
-    if (stat.isDirectory()) {
-      filePath = path.join(filePath, 'index.html');
-      if (!fs.existsSync(filePath)) { res.writeHead(404); res.end(); return; }
-    }
-  } catch { res.writeHead(404); res.end(); return; }
-  const ext = path.extname(filePath);
-  const mimes: Record<string, string> = { '.html': 'text/html', '.js': 'application/javascript', '.css': 'text/css', '.json': 'application/json' };
-  const securityHeaders: Record<string, string> = {
-    'Content-Type': mimes[ext] || 'application/octet-stream',
-    'X-Frame-Options': 'DENY',
-    'X-Content-Type-Options': 'nosniff',
-    'Content-Security-Policy': "default-src 'self'; script-src 'self' https://cdn.jsdelivr.net/npm/@xterm/xterm@5.5.0/ https://cdn.jsdelivr.net/npm/@xterm/addon-fit@0.10.0/; style-src 'self' 'unsafe-inline' https://cdn.jsdelivr.net/npm/@xterm/xterm@5.5.0/ https://cdn.jsdelivr.net/npm/@xterm/addon-fit@0.10.0/; connect-src 'self' ws://localhost:* ws://127.0.0.1:* wss://*.devtunnels.ms https://*.devtunnels.ms;",
-    'Referrer-Policy': 'no-referrer',
-    'Cache-Control': 'no-store',
-    'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
-  };
-  res.writeHead(200, securityHeaders);
-  // #8: Handle createReadStream errors
-  const stream = fs.createReadStream(filePath);
-  stream.on('error', () => { if (!res.headersSent) { res.writeHead(500); } res.end(); });
-  stream.pipe(res);
-});
-
-const wss = new WebSocketServer({
-  server,
-  maxPayload: 1048576,
-  verifyClient: (info: { req: http.IncomingMessage }) => {
-
-    // F-18: Session expiry
-    if (Date.now() - sessionCreatedAt > SESSION_TTL) return false;
-    // F-3: Validate origin when present (devtunnel proxies may strip it)
-    const origin = info.req.headers.origin;
-    if (origin) {
-      try {
-        const originUrl = new URL(origin);
-        const host = originUrl.hostname;
-        if (host !== 'localhost' && host !== '127.0.0.1' && !host.endsWith('.devtunnels.ms')) {
-          return false;
-        }
-      } catch { return false; }
-    }
-    const url = new URL(info.req.url!, `http://${info.req.headers.host}`);
-    // F-02: Accept one-time ticket (only auth method for WS)
-    const ticket = url.searchParams.get('ticket');
-    if (ticket && tickets.has(ticket)) {
-      const t = tickets.get(ticket)!;
-      tickets.delete(ticket); // Single use
-      return t.expires > Date.now();
-    }
-    return false;
-  },
-});
-
-// ─── Security: Audit log for remote PTY input ──────────────
-const auditDir = path.join(os.homedir(), '.cli-tunnel', 'audit');
-fs.mkdirSync(auditDir, { recursive: true, mode: 0o700 });
-const auditLogPath = path.join(auditDir, `audit-${new Date().toISOString().slice(0, 10)}.jsonl`);
-const auditLog = fs.createWriteStream(auditLogPath, { flags: 'a', mode: 0o600 });
-auditLog.on('error', (err) => { console.error('Audit log error:', err.message); });
-
-// R-01: WebSocketServer error handler — prevents process crash on WSS-level errors
-wss.on('error', (err) => {
-  console.error('[wss] WebSocketServer error:', err.message);
-});
-
-wss.on('connection', (ws, req) => {
-  // F-10: Connection cap (global + per-IP)
-  if (connections.size >= 5) {
-    ws.close(1013, 'Max connections reached');
-    return;
-  }
-  const remoteAddress = req.socket.remoteAddress || 'unknown';
-  let perIpCount = 0;
-  for (const [, c] of connections) {
-    if ((c as any)._remoteAddress === remoteAddress) perIpCount++;
-  }
-  if (perIpCount >= 2) {
-    ws.close(1013, 'Max connections per IP reached');
-    return;
-  }
-  const id = crypto.randomUUID();
-  (ws as any)._remoteAddress = remoteAddress;
-  connections.set(id, ws);
-
-  // R-02: Per-connection error handler to prevent unhandled crash
-  ws.on('error', (err) => { console.error('[ws] Connection error:', err.message); });
-
-  // Send replay buffer to late-joining clients (catch up on PTY state)
-  if (!hubMode && replayBuffer.length > 0) {
-    ws.send(JSON.stringify({ type: 'pty', data: replayBuffer }));
-  }
-
-  // F-13: Per-connection WS message rate limiter (100 msg/sec)
-  let wsMessageCount = 0;
-  let wsMessageResetAt = Date.now() + 1000;
-
-  // F-10: WS ping/pong heartbeat
-  (ws as any)._isAlive = true;
-  ws.on('pong', () => { (ws as any)._isAlive = true; });
-
-  ws.on('message', async (data) => {
-    // F-13: Enforce WS message rate limit (100 msg/sec)
-    const now = Date.now();
-    if (now > wsMessageResetAt) { wsMessageCount = 0; wsMessageResetAt = now + 1000; }
-    wsMessageCount++;
-    if (wsMessageCount > 100) {
-      auditLog.write(JSON.stringify({ ts: new Date().toISOString(), src: remoteAddress, type: 'rejected', reason: 'ws-rate-limit' }) + '\n');
-      return;
-    }
-    const raw = data.toString();
-    try {
-      const msg = JSON.parse(raw);
-      if (msg.type === 'pty_input' && ptyProcess) {
-        // R-03: Validate msg.data is a string before writing to PTY
-        if (typeof msg.data !== 'string') {
-          auditLog.write(JSON.stringify({ ts: new Date().toISOString(), src: remoteAddress, type: 'rejected', reason: 'invalid-data-type', dataType: typeof msg.data }) + '\n');
-        } else {
-          auditLog.write(JSON.stringify({ ts: new Date().toISOString(), src: remoteAddress, type: 'pty_input', data: redactSecrets(msg.data) }) + '\n');
-          ptyProcess.write(msg.data);
-        }
-      }
-      // pty_resize from remote clients is ignored — PTY stays at local terminal size
-      // The phone's xterm.js handles display via its own viewport/scrolling
-      if (msg.type === 'pty_resize') {
-        // Only log, don't resize — prevents breaking local terminal layout
-      }
-      // Grid relay: hub proxies PTY data between phone and local sessions
-      if (hubMode && msg.type === 'grid_connect') {
-        const port = Number(msg.port);
-        if (!Number.isFinite(port) || port < 1 || port > 65535) return;
-
-        const localSessions = readLocalSessions();
-        const session = localSessions.find(s => s.port === port);
-        if (!session) return;
-
-        try {
-          const ticketResp = await fetch(`http://127.0.0.1:${port}/api/auth/ticket`, {
-            method: 'POST',
-            headers: { 'Authorization': `Bearer ${session.token}` },
-            signal: AbortSignal.timeout(3000),
-          });
-          if (!ticketResp.ok) return;
-          const { ticket } = await ticketResp.json() as { ticket: string };
-
-          const sessionWs = new WebSocket(`ws://127.0.0.1:${port}?ticket=${encodeURIComponent(ticket)}`, {
-            headers: { origin: `http://127.0.0.1:${port}` },
-          });
-
-          sessionWs.on('open', () => {
-            relayConnections.set(port, sessionWs);
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify({ type: 'grid_connected', port }));
-            }
-          });
-
-          sessionWs.on('message', (sData) => {
-            try {
-              const parsed = JSON.parse(sData.toString());
-              if (parsed.type === 'pty' && ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify({ type: 'grid_pty', port, data: parsed.data }));
-              }
-            } catch {}
-          });
-
-          sessionWs.on('close', () => {
-            relayConnections.delete(port);
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify({ type: 'grid_disconnected', port }));
-            }
-          });
-
-          sessionWs.on('error', () => {
-            relayConnections.delete(port);
-          });
-        } catch {}
-      }
-
-      if (hubMode && msg.type === 'grid_input') {
-        const port = Number(msg.port);
-        const relay = relayConnections.get(port);
-        if (relay && relay.readyState === WebSocket.OPEN) {
-          relay.send(JSON.stringify({ type: 'pty_input', data: msg.data }));
-        }
+    if (/^https?:\/\//i.test(target)) {
+      // A bridge anywhere — its token URL, or its bare URL and a pairing code from the banner
+      const parsed = parseBridgeUrl(target);
+      baseUrl = parsed.baseUrl;
+      label = new URL(baseUrl).host;
+      headers = parsed.token
+        ? { Authorization: `Bearer ${parsed.token}` }
+        : await pairWithCode(baseUrl, flagValues.get('--code') ?? await askUser('Pairing code: '));
+    } else {
+      // A session on this machine — its session file has the token
+      const live = (await checkSessionFiles(sessionsDir)).filter(s => !s.stale && !s.hubMode);
+      const matches = live.filter(s => s.name === target || s.sessionId === target || s.tunnelId === target);
+      if (matches.length !== 1) {
+        if (matches.length === 0) console.error(`No running session named "${target}" — see cli-tunnel ls, or give its URL.`);
+        else console.error(`"${target}" matches ${matches.length} sessions — connect by id instead:`);
+        for (const s of matches) console.error(`  ${s.sessionId || s.tunnelId}  ${s.name}`);
+        process.exit(1);
       }
-    } catch {
-      // #3: Log but do NOT write to PTY — only structured pty_input messages allowed
-      auditLog.write(JSON.stringify({ ts: new Date().toISOString(), type: 'rejected', reason: 'non-json', length: raw.length }) + '\n');
+      const session = matches[0]!;
+      baseUrl = `http://127.0.0.1:${session.port}`;
+      label = session.name || session.sessionId || session.tunnelId;
+      headers = sessionAuthHeaders(session);
     }
-  });
-
-  ws.on('close', () => {
-    connections.delete(id);
-    // Close all relay connections when hub client disconnects
-    for (const [port, relay] of relayConnections) {
-      relay.close();
+    let ticket = await requestTicket(baseUrl, headers);
+    // Sessions with an authenticator enrolled want a fresh code from remote clients
+    for (let tries = 0; !ticket.ok && ticket.totp && ticket.totp !== 'locked' && tries < 3; tries++) {
+      const code = await askUser(`${ticket.error}. Authenticator code: `);
+      ticket = await requestTicket(baseUrl, { ...headers, 'X-TOTP-Code': code });
     }
-    relayConnections.clear();
-  });
-});
+    if (!ticket.ok) throw new Error(ticket.error);
 
-// F-10: WS heartbeat — ping every 2 minutes, close unresponsive connections
-// Longer interval prevents killing phone connections that go to background briefly
-setInterval(() => {
-  for (const [id, ws] of connections) {
-    if ((ws as any)._isAlive === false) {
-      ws.terminate();
-      connections.delete(id);
-      continue;
+    console.log(`${DIM}Connected to ${label} as ${ticket.role} — ${config.connectEscapeKey} disconnects.${RESET}`);
+    const result = await connectTerminal(baseUrl, ticket.ticket, { escapeKey: keySequence(config.connectEscapeKey)! });
+    if (result.reason === 'detached') {
+      console.log(`\r\n${DIM}Disconnected — ${label} is still running.${RESET}`);
+      process.exit(0);
     }
-    (ws as any)._isAlive = false;
-    ws.ping();
-  }
-}, 120000);
-
-// Rolling replay buffer for late-joining clients (grid panels, reconnects)
-let replayBuffer = '';
-
-function broadcast(data: string): void {
-  const redacted = redactSecrets(data);
-  const msg = JSON.stringify({ type: 'pty', data: redacted });
-  // Append to replay buffer (rolling, max 256KB)
-  replayBuffer += redacted;
-  if (replayBuffer.length > 262144) replayBuffer = replayBuffer.slice(-262144);
-  for (const [, ws] of connections) {
-    if (ws.readyState === WebSocket.OPEN) ws.send(msg);
+    console.log(`\r\n${DIM}Connection closed${result.message ? `: ${result.message}` : ''} (code ${result.code}).${RESET}`);
+    process.exit(result.code === 1000 || result.code === 1001 ? 0 : 1);
+  } catch (err) {
+    console.error(`Cannot connect to ${target}: ${(err as Error).message}`);
+    process.exit(1);
   }
 }
 
-// ─── Start bridge ───────────────────────────────────────────
-let ptyProcess: any = null;
-
-async function main() {
-  const actualPort = await new Promise<number>((resolve, reject) => {
-    server.listen(port, '127.0.0.1', () => {
-      const addr = server.address();
-      resolve(typeof addr === 'object' ? addr!.port : port);
-    });
-    server.on('error', reject);
-  });
-
-  const { repo, branch } = getGitInfo();
-  const machine = os.hostname();
-  const displayName = sessionName || command;
-
-  console.log(`\n${BOLD}cli-tunnel${RESET} ${DIM}v1.1.0${RESET}\n`);
-  if (hubMode) {
-    console.log(`  ${BOLD}📋 Hub Mode${RESET} — sessions dashboard`);
-    console.log(`  ${DIM}Port:${RESET}     ${actualPort}`);
-    console.log(`  ${DIM}Local URL:${RESET} http://127.0.0.1:${actualPort}?token=${sessionToken}&hub=1`);
-    console.log(`  ${YELLOW}⚠ Token in URL — do not share this URL in screen recordings or public channels${RESET}\n`);
-  } else {
-    console.log(`  ${DIM}Command:${RESET}  ${command} ${commandArgs.join(' ')}`);
-    console.log(`  ${DIM}Name:${RESET}     ${displayName}`);
-    console.log(`  ${DIM}Port:${RESET}     ${actualPort}`);
-    console.log(`  ${DIM}Audit log:${RESET} ${auditLogPath}`);
-    console.log(`  ${DIM}Local URL:${RESET} http://127.0.0.1:${actualPort}?token=${sessionToken}`);
-    console.log(`  ${YELLOW}⚠ Token in URL — do not share this URL in screen recordings or public channels${RESET}`);
-    console.log(`  ${DIM}Session expires:${RESET} ${new Date(sessionCreatedAt + SESSION_TTL).toLocaleTimeString()}`);
-  }
-
-  // Tunnel
-  if (hasTunnel) {
-    // Check if devtunnel is installed
-    let devtunnelInstalled = false;
-    try {
-      execFileSync('devtunnel', ['--version'], { stdio: 'pipe', env: getSubprocessEnv() });
-      devtunnelInstalled = true;
-    } catch {
-      console.log(`\n  ${YELLOW}⚠ devtunnel CLI not found!${RESET}\n`);
-      let installCmd = '';
-      if (process.platform === 'win32') {
-        installCmd = 'winget install Microsoft.devtunnel';
-      } else if (process.platform === 'darwin') {
-        installCmd = 'brew install --cask devtunnel';
-      } else {
-        installCmd = 'curl -sL https://aka.ms/DevTunnelCliInstall | bash';
-      }
-      const answer = await askUser(`  Would you like to install it now? (${GREEN}${installCmd}${RESET}) [Y/n] `);
-      if (answer === '' || answer === 'y' || answer === 'yes') {
-        console.log(`\n  ${DIM}Installing devtunnel...${RESET}\n`);
-        try {
-          const installParts = installCmd.split(' ');
-          const installProc = spawn(installParts[0]!, installParts.slice(1), { stdio: 'inherit', shell: process.platform !== 'win32' && installCmd.includes('|'), env: getSubprocessEnv() });
-          await new Promise<void>((resolve, reject) => {
-            installProc.on('close', (code) => code === 0 ? resolve() : reject(new Error(`Install exited with code ${code}`)));
-            installProc.on('error', reject);
-          });
-          // Refresh PATH — winget updates the registry but current process has stale PATH
-          if (process.platform === 'win32') {
-            try {
-              const userPath = execFileSync('reg', ['query', 'HKCU\\Environment', '/v', 'Path'], { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
-              const sysPath = execFileSync('reg', ['query', 'HKLM\\SYSTEM\\CurrentControlSet\\Control\\Session Manager\\Environment', '/v', 'Path'], { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
-              const extractPath = (out: string) => out.split('\n').find(l => l.includes('REG_'))?.split('REG_EXPAND_SZ')[1]?.trim() || out.split('\n').find(l => l.includes('REG_'))?.split('REG_SZ')[1]?.trim() || '';
-              process.env.PATH = `${extractPath(userPath)};${extractPath(sysPath)}`;
-            } catch { /* keep existing PATH */ }
-          }
-          // Verify installation
-          execFileSync('devtunnel', ['--version'], { stdio: 'pipe', env: getSubprocessEnv() });
-          console.log(`\n  ${GREEN}✓${RESET} devtunnel installed successfully!\n`);
-          devtunnelInstalled = true;
-        } catch (err) {
-          console.log(`\n  ${YELLOW}⚠${RESET} Installation failed: ${(err as Error).message}`);
-          console.log(`  ${DIM}You can install it manually: ${installCmd}${RESET}\n`);
-          console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
-        }
-      } else {
-        console.log(`\n  ${DIM}More info: https://aka.ms/devtunnels/doc${RESET}`);
-        console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
-      }
+if (doctorMode) {
+  const checks = await runDoctor({ provider: config.local ? 'local' : config.provider });
+  if (switches.has('--json')) console.log(JSON.stringify(checks, null, 2));
+  else {
+    const icon = { ok: `${GREEN}✓${RESET}`, warn: `${YELLOW}⚠${RESET}`, fail: `${YELLOW}✗${RESET}` };
+    for (const c of checks) {
+      console.log(`  ${icon[c.status]} ${c.name.padEnd(24)} ${c.detail}`);
+      if (c.fix) console.log(`    ${DIM}fix: ${c.fix}${RESET}`);
     }
+    const failed = checks.filter(c => c.status === 'fail').length;
+    const warned = checks.filter(c => c.status === 'warn').length;
+    console.log(failed + warned === 0 ? `\n${GREEN}✓${RESET} All checks passed` : `\n${failed} failed, ${warned} warning(s)`);
+  }
+  process.exit(checks.some(c => c.status === 'fail') ? 1 : 0);
+}
 
-    if (devtunnelInstalled) {
-      // Check if logged in before attempting tunnel creation
-      try {
-        const userInfo = execFileSync('devtunnel', ['user', 'show'], { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
-        if (userInfo.includes('not logged in') || userInfo.includes('No user') || userInfo.includes('Anonymous')) {
-          throw new Error('not logged in');
-        }
-      } catch {
-        console.log(`\n  ${YELLOW}⚠ devtunnel not authenticated.${RESET}\n`);
-        const loginAnswer = await askUser(`  Would you like to log in now? [Y/n] `);
-        if (loginAnswer === '' || loginAnswer === 'y' || loginAnswer === 'yes') {
-          try {
-            const loginProc = spawn('devtunnel', ['user', 'login'], { stdio: 'inherit', env: getSubprocessEnv() });
-            await new Promise<void>((resolve, reject) => {
-              loginProc.on('close', (code) => code === 0 ? resolve() : reject(new Error(`Login exited with code ${code}`)));
-              loginProc.on('error', reject);
-            });
-            console.log(`\n  ${GREEN}✓${RESET} Logged in successfully!\n`);
-          } catch {
-            console.log(`\n  ${YELLOW}⚠${RESET} Login failed. Run manually: ${GREEN}devtunnel user login${RESET}\n`);
-            console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
-            devtunnelInstalled = false;
-          }
-        } else {
-          console.log(`\n  ${DIM}Run this once to log in: ${GREEN}devtunnel user login${RESET}`);
-          console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
-          devtunnelInstalled = false;
-        }
-      }
-    }
+const sessionName = flagValues.get('--name') || '';
 
-    if (devtunnelInstalled) {
-      try {
-      const labelValues = ['cli-tunnel', sanitizeLabel(sessionName || command), sanitizeLabel(repo), sanitizeLabel(branch), sanitizeLabel(machine), `port-${actualPort}`];
-      const labelArgs = labelValues.flatMap(l => ['--labels', l]);
-      const createOut = execFileSync('devtunnel', ['create', ...labelArgs, '--expiration', '1d', '--json'], { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
-      const tunnelId = JSON.parse(createOut).tunnel?.tunnelId?.split('.')[0];
-      const cluster = JSON.parse(createOut).tunnel?.tunnelId?.split('.')[1] || 'euw';
-      execFileSync('devtunnel', ['port', 'create', tunnelId, '-p', String(actualPort), '--protocol', 'http'], { stdio: 'pipe', env: getSubprocessEnv() });
-      const hostProc = spawn('devtunnel', ['host', tunnelId], { stdio: 'pipe', detached: false, env: getSubprocessEnv() });
-
-      const url = await new Promise<string>((resolve, reject) => {
-        const timeout = setTimeout(() => reject(new Error('Tunnel timeout')), 15000);
-        let out = '';
-        hostProc.stdout?.on('data', (d: Buffer) => {
-          out += d.toString();
-          const match = out.match(/https:\/\/[^\s]+/);
-          if (match) { clearTimeout(timeout); resolve(match[0]); }
-        });
-        hostProc.on('error', (e) => { clearTimeout(timeout); reject(e); });
-      });
-
-      const tunnelUrlWithToken = `${url}?token=${sessionToken}${hubMode ? '&hub=1' : ''}`;
-      console.log(`  ${GREEN}✓${RESET} Tunnel: ${BOLD}${tunnelUrlWithToken}${RESET}`);
-      console.log(`  ${YELLOW}⚠ Token in URL — do not share in screen recordings or public channels${RESET}\n`);
-
-      // Write session file for hub discovery
-      writeSessionFile(tunnelId, url, actualPort);
-
-      try {
-        // @ts-ignore
-        const qr = (await import('qrcode-terminal')) as any;
-        qr.default.generate(tunnelUrlWithToken, { small: true }, (code: string) => console.log(code));
-      } catch {}
-
-      process.on('SIGINT', () => { removeSessionFile(); hostProc.kill(); try { execFileSync('devtunnel', ['delete', tunnelId, '--force'], { stdio: 'pipe', env: getSubprocessEnv() }); } catch {} });
-      process.on('exit', () => { removeSessionFile(); hostProc.kill(); try { execFileSync('devtunnel', ['delete', tunnelId, '--force'], { stdio: 'pipe', env: getSubprocessEnv() }); } catch {} });
-    } catch (err) {
-      const errMsg = (err as Error).message || '';
-      // Detect auth failure at create time (expired token, anonymous, etc.)
-      if (errMsg.includes('Anonymous') || errMsg.includes('Unauthorized') || errMsg.includes('not permitted')) {
-        console.log(`\n  ${YELLOW}⚠ devtunnel session expired or not authenticated.${RESET}\n`);
-        const loginAnswer = await askUser(`  Would you like to log in now? [Y/n] `);
-        if (loginAnswer === '' || loginAnswer === 'y' || loginAnswer === 'yes') {
-          try {
-            const loginProc = spawn('devtunnel', ['user', 'login'], { stdio: 'inherit', env: getSubprocessEnv() });            await new Promise<void>((resolve, reject) => {
-              loginProc.on('close', (code) => code === 0 ? resolve() : reject(new Error(`Login exited with code ${code}`)));
-              loginProc.on('error', reject);
-            });
-            console.log(`\n  ${GREEN}✓${RESET} Logged in! Please run cli-tunnel again to create the tunnel.\n`);
-          } catch {
-            console.log(`\n  ${YELLOW}⚠${RESET} Login failed. Run manually: ${GREEN}devtunnel user login${RESET}\n`);
-          }
-        }
-      } else {
-        console.log(`  ${YELLOW}⚠${RESET} Tunnel failed: ${errMsg}\n`);
-      }
-    }
-    } // end if (devtunnelInstalled)
+// ─── Playback ───────────────────────────────────────────────
+let playback: { cast: Cast; speed: number; idleLimit: number; file: string } | null = null;
+if (playMode) {
+  const file = cmdArgs[0];
+  if (!file) {
+    console.error('Usage: cli-tunnel play [--speed <n>] [--idle-limit <s>] [--serve] <file.cast>');
+    process.exit(1);
   }
-
-  // Write session file for local-only sessions (no tunnel) so hub can discover them
-  if (!hasTunnel && !hubMode && !sessionFilePath) {
-    const localId = `local-${actualPort}`;
-    writeSessionFile(localId, `http://127.0.0.1:${actualPort}`, actualPort);
-    process.on('SIGINT', () => { removeSessionFile(); });
-    process.on('exit', () => { removeSessionFile(); });
+  const speed = flagValues.has('--speed') ? parseFloat(flagValues.get('--speed')!) : 1;
+  const idleLimit = flagValues.has('--idle-limit') ? parseFloat(flagValues.get('--idle-limit')!) : Infinity;
+  if (!(speed > 0) || !(idleLimit > 0)) {
+    console.error('--speed and --idle-limit must be positive numbers');
+    process.exit(1);
   }
-
-  if (hubMode) {
-    // Hub mode — just serve the sessions dashboard, no PTY
-    console.log(`  ${GREEN}✓${RESET} Hub running — open in browser to see all sessions\n`);
-    console.log(`  ${DIM}Press Ctrl+C to stop.${RESET}\n`);
-    process.on('SIGINT', () => { server.close(); process.exit(0); });
-    // Keep process alive
-    await new Promise(() => {});
+  let cast: Cast;
+  try {
+    cast = readCast(path.resolve(file));
+  } catch (err) {
+    console.error(`Cannot play ${file}: ${(err as Error).message}`);
+    process.exit(1);
   }
-
-  // Wait for user to scan QR / copy URL before starting the CLI tool
-  if (hasTunnel && !noWait) {
-    console.log(`  ${BOLD}Press any key to start ${command}...${RESET}`);
-    await new Promise<void>((resolve) => {
-      if (process.stdin.isTTY) process.stdin.setRawMode(true);
-      process.stdin.resume();
-      process.stdin.once('data', () => resolve());
-    });
-    // Don't pause or reset raw mode — we'll set it up properly for PTY below
+  if (!playServe) {
+    await playCast(cast, { speed, idleTimeLimit: idleLimit });
+    process.exit(0);
   }
+  playback = { cast, speed, idleLimit, file: path.basename(file) };
+}
 
-  console.log(`  ${DIM}Starting ${command}...${RESET}\n`);
-
-  // Clear screen before PTY takes over — prevents overlap with banner/QR output
-  process.stdout.write('\x1b[2J\x1b[H');
+// Hub mode — no command, just show sessions dashboard
+const hubMode = !playMode && cmdArgs.length === 0;
 
-  // Spawn PTY
-  const nodePty = await import('node-pty');
-  const cols = process.stdout.columns || 120;
-  const rows = process.stdout.rows || 30;
+const command = hubMode || playMode ? '' : cmdArgs[0]!;
+const commandArgs = hubMode || playMode ? [] : cmdArgs.slice(1);
 
-  // Resolve command path for node-pty on Windows
-  let resolvedCmd = command;
-  if (process.platform === 'win32') {
-    try {
-      const wherePaths = execFileSync('where', [command], { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() }).trim().split('\n');
-      // Prefer .exe or .cmd over .ps1 for node-pty compatibility
-      const exePath = wherePaths.find(p => p.trim().endsWith('.exe')) || wherePaths.find(p => p.trim().endsWith('.cmd'));
-      if (exePath) {
-        resolvedCmd = exePath.trim();
-      } else {
-        // For .ps1 scripts, wrap with powershell
-        resolvedCmd = 'powershell';
-        commandArgs.unshift('-File', wherePaths[0]!.trim());
-      }
-    } catch { /* use as-is */ }
-  }
-
-  // F-07: Security — filter dangerous environment variables for PTY
-  // Blocklist approach: pass everything except known dangerous vars and secrets
-  const DANGEROUS_VARS = new Set(['NODE_OPTIONS', 'NODE_REPL_HISTORY', 'NODE_EXTRA_CA_CERTS',
-    'NODE_PATH', 'NODE_REDIRECT_WARNINGS', 'NODE_PENDING_DEPRECATION',
-    'UV_THREADPOOL_SIZE', 'LD_PRELOAD', 'DYLD_INSERT_LIBRARIES',
-    'SSH_AUTH_SOCK', 'GPG_TTY',
-    'PYTHONPATH', 'PYTHONSTARTUP', 'BASH_ENV', 'BASH_FUNC', 'JAVA_TOOL_OPTIONS', 'JAVA_OPTIONS', '_JAVA_OPTIONS',
-    'PROMPT_COMMAND', 'ENV', 'ZDOTDIR', 'PERL5OPT', 'RUBYOPT',
-    // F-04: Additional dangerous vars missed by original blocklist
-    'DATABASE_URL', 'REDIS_URL', 'MONGODB_URI', 'MONGO_URL',
-    'SLACK_WEBHOOK_URL', 'SLACK_TOKEN', 'SLACK_BOT_TOKEN',
-    'HTTP_PROXY', 'HTTPS_PROXY', 'ALL_PROXY', 'NO_PROXY',
-    'HISTFILE', 'HISTFILESIZE', 'LESSHISTFILE',
-    'GCP_SERVICE_ACCOUNT', 'GOOGLE_APPLICATION_CREDENTIALS',
-    'AZURE_SUBSCRIPTION_ID', 'AZURE_TENANT_ID', 'AZURE_CLIENT_ID', 'AZURE_CLIENT_SECRET',
-    'SENDGRID_API_KEY', 'TWILIO_AUTH_TOKEN', 'STRIPE_SECRET_KEY',
-    'AWS_SESSION_TOKEN', 'AWS_SECURITY_TOKEN']);
-  const sensitivePattern = /token|secret|key|password|credential|api_key|private_key|access_key|connection_string|auth|kubeconfig|docker_host|docker_config|passwd|dsn|webhook/i;
-
-  const safeEnv: Record<string, string> = {};
-  for (const [k, v] of Object.entries(process.env)) {
-    if (v !== undefined && !DANGEROUS_VARS.has(k) && !sensitivePattern.test(k)) {
-      safeEnv[k] = v;
-    }
+// ─── Daemon ─────────────────────────────────────────────────
+// --daemon: re-run ourselves detached, print the banner once it's up, and return
+if (switches.has('--daemon') && !daemonId) {
+  if (hubMode || playMode) {
+    console.error('--daemon needs a command to run, e.g. cli-tunnel --daemon copilot');
+    process.exit(1);
   }
-
-  ptyProcess = nodePty.spawn(resolvedCmd, commandArgs, {
-    name: 'xterm-256color',
-    cols, rows, cwd,
-    env: safeEnv,
-  });
-
-  // Register data handler immediately so no PTY output is lost
-  ptyProcess.onData((data: string) => {
-    process.stdout.write(data);
-    broadcast(data);
-  });
-
-  // Detect CSPRNG crash (rare Node.js + PTY issue) and show helpful message
-  let earlyExitCode: number | null = null;
-  const earlyExitCheck = new Promise<void>((resolve) => {
-    ptyProcess.onExit(({ exitCode }: { exitCode: number }) => {
-      earlyExitCode = exitCode;
-      resolve();
+  try {
+    const started = await startDaemon({
+      argv: [process.argv[1]!, ...ownArgs.filter(a => a !== '--daemon'), '--', ...cmdArgs],
+      dir: daemonsDir,
+      id: crypto.randomBytes(4).toString('hex'),
     });
-    setTimeout(resolve, 2000);
-  });
-
-  await earlyExitCheck;
-  if (earlyExitCode !== null) {
-    if (earlyExitCode === 134 || earlyExitCode === 3221226505) {
-      const nodeVer = process.version;
-      console.log(`  ${YELLOW}⚠${RESET} The command crashed (CSPRNG assertion failure).`);
-      console.log(`  This is a known issue with Node.js ${nodeVer} + PTY on Windows.`);
-      console.log(`  ${BOLD}Fix:${RESET} Install Node.js 22 LTS: ${GREEN}nvm install 22${RESET} or ${GREEN}winget install OpenJS.NodeJS.LTS${RESET}\n`);
-      process.exit(1);
-    } else {
-      console.log(`\n${DIM}Process exited (code ${earlyExitCode}).${RESET}`);
-      server.close();
-      process.exit(earlyExitCode);
-    }
+    process.stdout.write(started.log);
+    console.log(`  ${DIM}Daemon log:${RESET} ${started.logPath}\n`);
+    process.exit(0);
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(1);
   }
+}
 
-  ptyProcess.onExit(({ exitCode }: { exitCode: number }) => {
-    console.log(`\n${DIM}Process exited (code ${exitCode}).${RESET}`);
-    ptyProcess = null;
-    server.close();
-    process.exit(exitCode);
+// ─── Start bridge ───────────────────────────────────────────
+// See src/bridge.ts — the CLI only connects it to this process's terminal and signals
+const common = {
+  config,
+  name: sessionName,
+  log: (text: string) => console.log(text),
+  // A daemon's stdout is its log file — its terminals attach over a socket instead
+  terminal: daemonId ? undefined : {
+    write: (text: string) => { process.stdout.write(text); },
+    cols: process.stdout.columns || 120,
+    rows: process.stdout.rows || 30,
+  },
+};
+let bridge: Hub;
+let session: BridgeSession | null = null;
+if (playback) {
+  bridge = createPlayback({ ...common, ...playback });
+} else if (hubMode) {
+  bridge = createHub(common);
+} else {
+  session = createTunnelSession({
+    ...common,
+    command,
+    args: commandArgs,
+    record: flagValues.get('--record'),
+    daemon: daemonId ? { id: daemonId, socket: daemonSocketPath(daemonsDir, daemonId) } : undefined,
+    // Wait for user to scan QR / copy URL before starting the CLI tool
+    beforeSpawn: !config.local && config.provider !== 'local' && !noWait && !daemonId ? async () => {
+      console.log(`  ${BOLD}Press any key to start ${command}...${RESET}`);
+      await new Promise<void>((resolve) => {
+        if (process.stdin.isTTY) process.stdin.setRawMode(true);
+        process.stdin.resume();
+        process.stdin.once('data', () => resolve());
+      });
+      // Don't pause or reset raw mode — we'll set it up properly for PTY below
+    } : undefined,
   });
+  session.on('exit', ({ exitCode }) => process.exit(exitCode));
+  bridge = session;
+}
+
+// Session file, tunnel, PTYs and daemon socket go with the process
+process.on('exit', () => { void bridge.stop(); });
+process.on('SIGINT', () => process.exit(0));
+if (daemonId) {
+  // Daemon — no terminal of our own; local terminals come and go via `cli-tunnel attach`
+  process.on('SIGHUP', () => {});
+}
+// Stopped from the hub or with cli-tunnel kill — exit through the normal cleanup (tunnel, session file, socket)
+process.on('SIGTERM', () => process.exit(143));
 
+try {
+  await bridge.start();
+} catch (err) {
+  console.error(err);
+  process.exit(1);
+}
+
+if (!session) {
+  console.log(`  ${DIM}Press Ctrl+C to stop.${RESET}\n`);
+  // No PTY — the terminal is only read for escape keys (~p, ~r, ~e)
+  process.stdin.on('data', (data: Buffer) => bridge.input(data.toString()));
+} else if (!daemonId) {
+  const local = session;
   if (process.stdin.isTTY) process.stdin.setRawMode(true);
   process.stdin.resume();
-  process.stdin.on('data', (data: Buffer) => { if (ptyProcess) ptyProcess.write(data.toString()); });
-  process.stdout.on('resize', () => { localResizeAt = Date.now(); const c = process.stdout.columns || 120; const r = process.stdout.rows || 30; if (ptyProcess) ptyProcess.resize(c, r); });
+  process.stdin.on('data', (data: Buffer) => local.input(data.toString()));
+  process.stdout.on('resize', () => local.resize({ cols: process.stdout.columns || 120, rows: process.stdout.rows || 30 }));
 }
-
-main().catch((err) => { console.error(err); process.exit(1); });
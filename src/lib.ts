@@ -0,0 +1,12 @@
+// ─── Library entry ──────────────────────────────────────────
+// `import { createTunnelSession } from 'cli-tunnel'` — the CLI itself is
+// dist/index.js (the package's bin), which runs as soon as it is loaded.
+
+export {
+  createTunnelSession, createHub, createPlayback,
+  type Bridge, type BridgeSession, type Hub, type BridgeInfo, type ClientRole, type ClientInfo,
+  type HubEvents, type SessionEvents, type LocalTerminal,
+  type TunnelSessionOptions, type HubOptions, type PlaybackOptions,
+} from './bridge.js';
+export { readCast, type Cast } from './asciicast.js';
+export type { Config, LaunchProfile } from './config.js';
@@ -0,0 +1,91 @@
+// ─── Prometheus metrics ─────────────────────────────────────
+// Counters for what otherwise only shows up in the audit log, if at all:
+// rate-limit refusals, connection-cap closes, heartbeat drops, ticket churn.
+// GET /metrics (opt-in with `metrics: true`) renders them in the text
+// exposition format, followed by gauges the bridge reads at scrape time.
+
+const PREFIX = 'cli_tunnel_';
+
+interface CounterSpec {
+  help: string;
+  /** The one label this counter is split by, and the values shown as 0 before they are first counted */
+  label?: { name: string; values: readonly string[] };
+}
+
+const COUNTERS = {
+  broadcast_bytes_total: { help: 'Redacted PTY output broadcast to WebSocket clients, in bytes' },
+  messages_received_total: { help: 'WebSocket messages received from clients' },
+  messages_sent_total: { help: 'WebSocket messages sent to clients' },
+  tickets_issued_total: { help: 'One-time WebSocket tickets issued' },
+  tickets_expired_total: { help: 'Tickets that expired before they were used' },
+  rate_limited_total: {
+    help: 'Requests and WebSocket messages refused by a rate limit',
+    label: { name: 'bucket', values: ['api', 'ticket', 'pair', 'ws'] },
+  },
+  connections_rejected_total: {
+    help: 'WebSocket connections closed with 1013 at a connection cap',
+    label: { name: 'limit', values: ['total', 'per-ip'] },
+  },
+  heartbeat_terminations_total: { help: 'WebSocket connections dropped for not answering the heartbeat ping' },
+} satisfies Record<string, CounterSpec>;
+
+export type CounterName = keyof typeof COUNTERS;
+
+export interface GaugeSample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+export interface Gauge {
+  /** Without the cli_tunnel_ prefix */
+  name: string;
+  help: string;
+  samples: GaugeSample[];
+}
+
+export interface Metrics {
+  /** Add to a counter — `label` is the value of its split label, when it has one */
+  inc(counter: CounterName, by?: number, label?: string): void;
+  /** Every counter, then the gauges, in the Prometheus text format */
+  render(gauges: Gauge[]): string;
+}
+
+export function createMetrics(): Metrics {
+  // counter → label value ('' for unsplit counters) → count
+  const counts = new Map<CounterName, Map<string, number>>();
+  for (const [name, spec] of Object.entries(COUNTERS) as Array<[CounterName, CounterSpec]>) {
+    counts.set(name, new Map((spec.label?.values ?? ['']).map(v => [v, 0])));
+  }
+
+  return {
+    inc(counter, by = 1, label = '') {
+      const values = counts.get(counter)!;
+      values.set(label, (values.get(label) ?? 0) + by);
+    },
+    render(gauges) {
+      const lines: string[] = [];
+      for (const [name, values] of counts) {
+        const spec: CounterSpec = COUNTERS[name];
+        lines.push(`# HELP ${PREFIX}${name} ${spec.help}`, `# TYPE ${PREFIX}${name} counter`);
+        for (const [label, value] of values) {
+          lines.push(sample(name, spec.label ? { [spec.label.name]: label } : undefined, value));
+        }
+      }
+      for (const gauge of gauges) {
+        lines.push(`# HELP ${PREFIX}${gauge.name} ${gauge.help}`, `# TYPE ${PREFIX}${gauge.name} gauge`);
+        for (const s of gauge.samples) lines.push(sample(gauge.name, s.labels, s.value));
+      }
+      return lines.join('\n') + '\n';
+    },
+  };
+}
+
+function sample(name: string, labels: Record<string, string> | undefined, value: number): string {
+  const pairs = Object.entries(labels ?? {}).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return `${PREFIX}${name}${pairs.length ? `{${pairs.join(',')}}` : ''} ${value}`;
+}
+
+/** Label values are quoted — backslashes, quotes and newlines are escaped */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
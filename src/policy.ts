@@ -0,0 +1,181 @@
+// ─── Remote input policy ────────────────────────────────────
+// Remote keystrokes are forwarded to the PTY as they arrive, but the line
+// they build is tracked on the side. When Enter arrives the line is checked
+// against deny rules first: 'deny' rules drop it, 'confirm' rules hold the
+// Enter until someone at the local terminal allows or denies it. A dropped
+// line is cleared with Ctrl+E Ctrl+U so the shell never runs it.
+//
+// Cursor movement, history, kill/yank keys and Tab completion change the
+// shell's line in ways the gate can't follow, so a line that used any control
+// key besides Backspace, Ctrl+U and Ctrl+C is unknown text: its Enter is held
+// for local confirmation under the rule 'edited-line'.
+
+export type PolicyAction = 'deny' | 'confirm';
+export const POLICY_ACTIONS: readonly PolicyAction[] = ['deny', 'confirm'];
+
+/** A user-defined rule from config — pattern is a regex source string */
+export interface InputPolicyRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+  /** What to do with a matching line (default 'deny') */
+  action?: PolicyAction;
+}
+
+export interface PolicyMatch {
+  rule: string;
+  action: PolicyAction;
+}
+
+interface CompiledRule {
+  name: string;
+  pattern: RegExp;
+  action: PolicyAction;
+}
+
+const BUILTIN_RULES: CompiledRule[] = [
+  // rm -rf / ~ $HOME * (any flag order, --recursive too)
+  { name: 'rm-recursive-root', action: 'deny', pattern: /\brm\s+(?:\S+\s+)*?(?:-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)\s+(?:\S+\s+)*?(?:\/\*?|~\/?\*?|\$HOME\/?\*?|\*)(?=\s|;|&|\||$)/ },
+  // curl ... | sh — runs whatever the server sends
+  { name: 'pipe-to-shell', action: 'deny', pattern: /\b(?:curl|wget)\b.*\|\s*(?:sudo\s+)?(?:ba|z|da|k|fi)?sh\b/ },
+  // Formatting or overwriting a disk
+  { name: 'disk-wipe', action: 'deny', pattern: /\bmkfs(?:\.\w+)?\s|\bdd\s+.*\bof=\/dev\/(?!null\b)|>\s*\/dev\/(?:sd|hd|nvme|disk)\w*/ },
+  { name: 'fork-bomb', action: 'deny', pattern: /:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/ },
+  // Rewrites shared history — legitimate now and then, so someone local decides
+  { name: 'git-force-push', action: 'confirm', pattern: /\bgit\s+push\b.*\s(?:--force(?:-with-lease)?\b|-[a-zA-Z]*f[a-zA-Z]*\b|\+\S)/ },
+];
+
+/** Names of the built-in rules, in the order they are checked */
+export const BUILTIN_POLICY_RULES = BUILTIN_RULES.map(r => ({ name: r.name, action: r.action }));
+
+export interface InputPolicy {
+  /** First rule matching a complete input line, or null */
+  check(line: string): PolicyMatch | null;
+}
+
+/** Built-in rules first, then config rules — invalid patterns are rejected during config validation */
+export function createInputPolicy(rules: InputPolicyRule[] = []): InputPolicy {
+  const compiled: CompiledRule[] = [
+    ...BUILTIN_RULES,
+    ...rules.map(r => ({ name: r.name, pattern: new RegExp(r.pattern, (r.flags ?? '').replace('g', '')), action: r.action ?? 'deny' })),
+  ];
+  return {
+    check(line) {
+      const text = line.trim();
+      if (!text) return null;
+      const hit = compiled.find(r => r.pattern.test(text));
+      return hit ? { rule: hit.name, action: hit.action } : null;
+    },
+  };
+}
+
+// ─── Line gate ──────────────────────────────────────────────
+
+// CSI, SS3 and two-byte escapes — arrow keys, bracketed paste markers, Alt+key
+const INPUT_ESCAPE_RE = /\x1b(?:\[[0-?]*[ -\/]*[@-~]|O.|[^\[O])/y;
+// Bracketed paste markers and focus reports — the only escapes that leave the line as typed
+const NEUTRAL_ESCAPES = new Set(['\x1b[200~', '\x1b[201~', '\x1b[I', '\x1b[O']);
+// Keys that run the line: Enter, Ctrl+J and Ctrl+O (bash operate-and-get-next)
+const ACCEPT_KEYS = new Set(['\r', '\n', '\x0f']);
+// Ctrl+E first — Ctrl+U only kills what is left of the cursor
+const CLEAR_LINE = '\x05\x15';
+
+/** The rule a line is held under when it was edited in ways the gate can't follow */
+export const EDITED_LINE_RULE = 'edited-line';
+
+export interface LineGateOptions {
+  policy: InputPolicy;
+  /** Input that passed the policy — written to the PTY */
+  forward(data: string): void;
+  /** The keys that clear a denied line — written to the PTY, default: through forward */
+  clear?(data: string): void;
+  /** A complete line matched a rule — resolve true to let it run */
+  decide(line: string, match: PolicyMatch): Promise<boolean>;
+  /** Input queued while a decision is pending is capped (default 65536 chars) */
+  maxQueued?: number;
+}
+
+export interface LineGate {
+  /** Feed remote input — false when it was dropped because the queue is full */
+  write(data: string): boolean;
+  /** True while a line waits for a decision — everything written meanwhile is queued */
+  isHeld(): boolean;
+  dispose(): void;
+}
+
+export function createLineGate(options: LineGateOptions): LineGate {
+  const maxQueued = options.maxQueued ?? 65536;
+  let line = '';
+  // The shell's line may differ from `line` — any control key but the ones tracked below
+  let edited = false;
+  let queued = '';
+  let held = false;
+  let disposed = false;
+
+  const feed = (data: string) => {
+    let out = '';
+    let i = 0;
+    while (i < data.length) {
+      const ch = data[i]!;
+      if (ACCEPT_KEYS.has(ch)) {
+        const text = line;
+        const unknown = edited;
+        line = '';
+        edited = false;
+        const match = options.policy.check(text) ?? (unknown ? { rule: EDITED_LINE_RULE, action: 'confirm' as const } : null);
+        if (!match) { out += ch; i++; continue; }
+        // Everything typed so far goes through; the Enter waits for the decision
+        if (out) options.forward(out);
+        held = true;
+        const rest = data.slice(i + 1);
+        options.decide(text, match).catch(() => false).then((allow) => {
+          if (disposed) return;
+          if (allow) options.forward(ch);
+          else if (options.clear) options.clear(CLEAR_LINE);
+          else options.forward(CLEAR_LINE);
+          held = false;
+          const next = rest + queued;
+          queued = '';
+          if (next) feed(next);
+        });
+        return;
+      }
+      if (ch === '\x1b') {
+        INPUT_ESCAPE_RE.lastIndex = i;
+        const m = INPUT_ESCAPE_RE.exec(data);
+        const seq = m ? m[0] : ch;
+        if (!NEUTRAL_ESCAPES.has(seq)) edited = true;
+        out += seq;
+        i += seq.length;
+        continue;
+      }
+      if (ch === '\x7f' || ch === '\b') line = line.slice(0, -1);
+      else if (ch === '\x15' || ch === '\x03') { line = ''; edited = false; }
+      else if (ch >= ' ') line += ch;
+      else edited = true;
+      out += ch;
+      i++;
+    }
+    if (out) options.forward(out);
+  };
+
+  return {
+    write(data) {
+      if (disposed) return false;
+      if (held) {
+        if (queued.length + data.length > maxQueued) return false;
+        queued += data;
+        return true;
+      }
+      feed(data);
+      return true;
+    },
+    isHeld() {
+      return held;
+    },
+    dispose() {
+      disposed = true;
+      queued = '';
+    },
+  };
+}
@@ -0,0 +1,144 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+// ─── Web Push ───────────────────────────────────────────────
+// Notifications to subscribed remote-ui clients without a third-party server:
+// a VAPID key pair is generated once and kept in ~/.cli-tunnel/vapid.json,
+// payloads are encrypted per RFC 8291 (aes128gcm) and POSTed straight to each
+// browser's push service. Subscriptions are shared by every session on the
+// machine, so a phone that subscribed once hears from all of them.
+
+export interface PushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface VapidKeys {
+  /** Uncompressed P-256 point, base64url — the browser's applicationServerKey */
+  publicKey: string;
+  privateKey: crypto.KeyObject;
+}
+
+const b64url = (buf: Buffer) => buf.toString('base64url');
+
+/** Load the machine's VAPID key pair, creating it on first use */
+export function loadVapidKeys(file: string): VapidKeys {
+  try {
+    const saved = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return { publicKey: saved.publicKey, privateKey: crypto.createPrivateKey({ key: saved.privateKey, format: 'jwk' }) };
+  } catch { /* first run, or unreadable — make a new pair */ }
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const jwk = publicKey.export({ format: 'jwk' });
+  const point = Buffer.concat([Buffer.from([4]), Buffer.from(jwk.x!, 'base64url'), Buffer.from(jwk.y!, 'base64url')]);
+  const keys = { publicKey: b64url(point), privateKey };
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({ publicKey: keys.publicKey, privateKey: privateKey.export({ format: 'jwk' }) }), { mode: 0o600 });
+  return keys;
+}
+
+/** Push services are https; plain http is only accepted on loopback (local testing) */
+export function isValidSubscription(value: unknown): value is PushSubscription {
+  const sub = value as PushSubscription;
+  if (typeof sub?.endpoint !== 'string' || typeof sub.keys?.p256dh !== 'string' || typeof sub.keys?.auth !== 'string') return false;
+  try {
+    const url = new URL(sub.endpoint);
+    const loopback = url.hostname === '127.0.0.1' || url.hostname === 'localhost';
+    if (url.protocol !== 'https:' && !(url.protocol === 'http:' && loopback)) return false;
+  } catch { return false; }
+  return Buffer.from(sub.keys.p256dh, 'base64url').length === 65 && Buffer.from(sub.keys.auth, 'base64url').length === 16;
+}
+
+export interface SubscriptionStore {
+  list(): PushSubscription[];
+  add(sub: PushSubscription): void;
+  remove(endpoint: string): boolean;
+}
+
+/** Subscriptions in one JSON file — re-read on every call so all sessions share it */
+export function createSubscriptionStore(file: string): SubscriptionStore {
+  const read = (): PushSubscription[] => {
+    try {
+      const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      return Array.isArray(data) ? data.filter(isValidSubscription) : [];
+    } catch { return []; }
+  };
+  const write = (subs: PushSubscription[]) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(subs, null, 2), { mode: 0o600 });
+  };
+  return {
+    list: read,
+    add(sub) {
+      write([...read().filter(s => s.endpoint !== sub.endpoint), { endpoint: sub.endpoint, keys: { p256dh: sub.keys.p256dh, auth: sub.keys.auth } }]);
+    },
+    remove(endpoint) {
+      const subs = read();
+      const kept = subs.filter(s => s.endpoint !== endpoint);
+      if (kept.length === subs.length) return false;
+      write(kept);
+      return true;
+    },
+  };
+}
+
+/** RFC 8291 aes128gcm body: salt, record size, sender key, then the sealed payload */
+export function encryptPushPayload(sub: PushSubscription, payload: string): Buffer {
+  const uaPublic = Buffer.from(sub.keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(sub.keys.auth, 'base64url');
+  const ecdh = crypto.createECDH('prime256v1');
+  const asPublic = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(uaPublic);
+  const hkdf = (salt: Buffer, ikm: Buffer, info: Buffer, length: number) => Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+
+  const ikm = hkdf(authSecret, sharedSecret, Buffer.concat([Buffer.from('WebPush: info\0'), uaPublic, asPublic]), 32);
+  const salt = crypto.randomBytes(16);
+  const cek = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', cek, nonce);
+  // 0x02 marks the last (and only) record
+  const sealed = Buffer.concat([cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(4096, 16);
+  header.writeUInt8(asPublic.length, 20);
+  return Buffer.concat([header, asPublic, sealed]);
+}
+
+/** VAPID JWT (ES256) for the push service's origin */
+function vapidToken(keys: VapidKeys, endpoint: string): string {
+  const header = b64url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = b64url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 3600,
+    sub: 'mailto:cli-tunnel@localhost',
+  })));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), { key: keys.privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${header}.${claims}.${b64url(signature)}`;
+}
+
+/**
+ * Send one notification. Resolves to 'gone' when the push service says the
+ * subscription no longer exists (the caller should drop it).
+ */
+export async function sendPush(keys: VapidKeys, sub: PushSubscription, payload: string): Promise<'sent' | 'gone' | 'failed'> {
+  try {
+    const res = await fetch(sub.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Encoding': 'aes128gcm',
+        'TTL': '3600',
+        'Urgency': 'high',
+        'Authorization': `vapid t=${vapidToken(keys, sub.endpoint)}, k=${keys.publicKey}`,
+      },
+      body: new Uint8Array(encryptPushPayload(sub, payload)),
+      signal: AbortSignal.timeout(5000),
+    });
+    if (res.status === 404 || res.status === 410) return 'gone';
+    return res.ok ? 'sent' : 'failed';
+  } catch {
+    return 'failed';
+  }
+}
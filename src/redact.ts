@@ -3,45 +3,276 @@ function stripZeroWidth(text: string): string {
   return text.replace(/[\u200B\u200C\u200D\uFEFF\u00AD\u2060\u180E]/g, '');
 }
 
-export function redactSecrets(text: string): string {
-  const cleaned = stripZeroWidth(text);
-  return cleaned
-    // Generic patterns: key=value, key: value, key="value"
-    .replace(/(?:token|secret|key|password|credential|authorization|api_key|private_key|access_key|connection_string|db_pass|signing)[\s:="']+\S{8,}/gi, '[REDACTED]')
-    // OpenAI keys
-    .replace(/sk-[a-zA-Z0-9]{20,}/g, '[REDACTED]')
-    // GitHub tokens
-    .replace(/gh[ps]_[a-zA-Z0-9]{36,}/g, '[REDACTED]')
-    // AWS keys
-    .replace(/AKIA[A-Z0-9]{16}/g, '[REDACTED]')
-    // Azure connection strings
-    .replace(/DefaultEndpointsProtocol=[^;\s]{20,}/gi, '[REDACTED]')
-    .replace(/AccountKey=[^;\s]{20,}/gi, 'AccountKey=[REDACTED]')
-    // F-09: Azure SAS tokens
-    .replace(/[?&]sig=[a-zA-Z0-9%/+=]{20,}/gi, '?sig=[REDACTED]')
-    .replace(/SharedAccessSignature\s+[^\s"']{20,}/gi, 'SharedAccessSignature [REDACTED]')
-    // Database URLs
-    .replace(/(postgres|mongodb|mysql|redis):\/\/[^\s"']{10,}/gi, '[REDACTED]')
-    // F-17: Bearer tokens (relaxed min length to catch shorter tokens)
-    .replace(/Bearer\s+[a-zA-Z0-9._\-/+=]{8,}/gi, 'Bearer [REDACTED]')
-    // F-17: Basic auth headers
-    .replace(/Basic\s+[a-zA-Z0-9+/=]{8,}/gi, 'Basic [REDACTED]')
-    // JWT tokens
-    .replace(/eyJ[a-zA-Z0-9_-]{10,}\.[a-zA-Z0-9_-]{10,}\.[a-zA-Z0-9_-]{10,}/g, '[REDACTED]')
-    // Slack tokens
-    .replace(/xox[bpras]-[a-zA-Z0-9-]{10,}/g, '[REDACTED]')
-    // npm tokens
-    .replace(/npm_[a-zA-Z0-9]{20,}/g, '[REDACTED]')
-    // F-09: Google API keys
-    .replace(/AIzaSy[a-zA-Z0-9_-]{33}/g, '[REDACTED]')
-    // F-09: Stripe keys
-    .replace(/(?:sk|pk|rk)_(?:live|test)_[a-zA-Z0-9]{10,}/g, '[REDACTED]')
-    // F-09: SendGrid keys
-    .replace(/SG\.[a-zA-Z0-9_-]{22,}\.[a-zA-Z0-9_-]{22,}/g, '[REDACTED]')
-    // F-09: Twilio keys
-    .replace(/SK[a-f0-9]{32}/g, '[REDACTED]')
-    // F-09: Webhook secrets
-    .replace(/whsec_[a-zA-Z0-9+/=]{20,}/g, '[REDACTED]')
-    // PEM private keys
-    .replace(/-----BEGIN [A-Z ]+ PRIVATE KEY-----[\s\S]*?-----END [A-Z ]+ PRIVATE KEY-----/g, '[REDACTED]');
+export interface RedactionRule {
+  /** Shown in the output as [REDACTED:name] */
+  name: string;
+  pattern: RegExp;
+  /** Text kept in front of the label, e.g. 'Bearer ' */
+  keep?: string;
+}
+
+/** A user-defined rule from config — pattern is a regex source string */
+export interface CustomRedactionRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+  /** Label in the output (defaults to name) */
+  label?: string;
+}
+
+export interface RedactorOptions {
+  rules?: CustomRedactionRule[];
+  /** Regex sources — a candidate secret matching any of these is left alone */
+  allowlist?: string[];
+  /** Flag long high-entropy strings that no rule recognised */
+  entropy?: boolean;
+  entropyMinLength?: number;
+}
+
+const BUILTIN_RULES: RedactionRule[] = [
+  // Generic patterns: key=value, key: value, key="value"
+  { name: 'secret-assignment', pattern: /(?:token|secret|key|password|credential|authorization|api_key|private_key|access_key|connection_string|db_pass|signing)[\s:="']+\S{8,}/gi },
+  // OpenAI keys
+  { name: 'openai-key', pattern: /sk-[a-zA-Z0-9]{20,}/g },
+  // GitHub tokens
+  { name: 'github-token', pattern: /gh[ps]_[a-zA-Z0-9]{36,}/g },
+  // AWS keys
+  { name: 'aws-access-key', pattern: /AKIA[A-Z0-9]{16}/g },
+  // Azure connection strings
+  { name: 'azure-connection-string', pattern: /DefaultEndpointsProtocol=[^;\s]{20,}/gi },
+  { name: 'azure-account-key', pattern: /AccountKey=[^;\s]{20,}/gi, keep: 'AccountKey=' },
+  // F-09: Azure SAS tokens
+  { name: 'azure-sas', pattern: /[?&]sig=[a-zA-Z0-9%/+=]{20,}/gi, keep: '?sig=' },
+  { name: 'azure-sas', pattern: /SharedAccessSignature\s+[^\s"']{20,}/gi, keep: 'SharedAccessSignature ' },
+  // Database URLs
+  { name: 'database-url', pattern: /(postgres|mongodb|mysql|redis):\/\/[^\s"']{10,}/gi },
+  // F-17: Bearer tokens (relaxed min length to catch shorter tokens)
+  { name: 'bearer-token', pattern: /Bearer\s+[a-zA-Z0-9._\-/+=]{8,}/gi, keep: 'Bearer ' },
+  // F-17: Basic auth headers
+  { name: 'basic-auth', pattern: /Basic\s+[a-zA-Z0-9+/=]{8,}/gi, keep: 'Basic ' },
+  // JWT tokens
+  { name: 'jwt', pattern: /eyJ[a-zA-Z0-9_-]{10,}\.[a-zA-Z0-9_-]{10,}\.[a-zA-Z0-9_-]{10,}/g },
+  // Slack tokens
+  { name: 'slack-token', pattern: /xox[bpras]-[a-zA-Z0-9-]{10,}/g },
+  // npm tokens
+  { name: 'npm-token', pattern: /npm_[a-zA-Z0-9]{20,}/g },
+  // F-09: Google API keys
+  { name: 'google-api-key', pattern: /AIzaSy[a-zA-Z0-9_-]{33}/g },
+  // F-09: Stripe keys
+  { name: 'stripe-key', pattern: /(?:sk|pk|rk)_(?:live|test)_[a-zA-Z0-9]{10,}/g },
+  // F-09: SendGrid keys
+  { name: 'sendgrid-key', pattern: /SG\.[a-zA-Z0-9_-]{22,}\.[a-zA-Z0-9_-]{22,}/g },
+  // F-09: Twilio keys
+  { name: 'twilio-key', pattern: /SK[a-f0-9]{32}/g },
+  // F-09: Webhook secrets
+  { name: 'webhook-secret', pattern: /whsec_[a-zA-Z0-9+/=]{20,}/g },
+  // PEM private keys
+  { name: 'private-key', pattern: /-----BEGIN [A-Z ]+ PRIVATE KEY-----[\s\S]*?-----END [A-Z ]+ PRIVATE KEY-----/g },
+];
+
+/** Shannon entropy in bits per character */
+export function shannonEntropy(s: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of s) counts.set(ch, (counts.get(ch) || 0) + 1);
+  let h = 0;
+  for (const n of counts.values()) {
+    const p = n / s.length;
+    h -= p * Math.log2(p);
+  }
+  return h;
+}
+
+/**
+ * Random-looking tokens: hex strings above 3.0 bits/char, other base64-ish
+ * strings mixing letters and digits above 4.0 bits/char.
+ */
+function looksRandom(token: string): boolean {
+  if (/^[0-9a-f]+$/i.test(token)) return /[a-f]/i.test(token) && /\d/.test(token) && shannonEntropy(token) >= 3.0;
+  return /[a-z]/i.test(token) && /\d/.test(token) && shannonEntropy(token) >= 4.0;
+}
+
+/** Compile user rules from config — invalid patterns are rejected during config validation */
+function compileRule(rule: CustomRedactionRule): RedactionRule {
+  const flags = rule.flags ?? '';
+  return { name: rule.label || rule.name, pattern: new RegExp(rule.pattern, flags.includes('g') ? flags : flags + 'g') };
+}
+
+/** A secret found in text — [start, end) is replaced by `replacement` */
+export interface SecretMatch {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+export interface SecretScanner {
+  /** Non-overlapping matches, ordered by position. Earlier rules win overlaps. */
+  find(text: string): SecretMatch[];
+}
+
+export function createSecretScanner(options: RedactorOptions = {}): SecretScanner {
+  const rules = [...BUILTIN_RULES, ...(options.rules ?? []).map(compileRule)];
+  // Whole-candidate matches only — a pattern like "." must not allow every secret
+  const allowlist = (options.allowlist ?? []).map(src => new RegExp(`^(?:${src})$`));
+  const isAllowed = (candidate: string) => allowlist.some(re => re.test(candidate));
+  const minLength = options.entropyMinLength ?? 24;
+  // '/' is left out so file paths split into short pieces
+  const entropyRe = new RegExp(`[A-Za-z0-9+=_-]{${minLength},}`, 'g');
+
+  return {
+    find(text) {
+      const matches: SecretMatch[] = [];
+      const add = (start: number, value: string, replacement: string) => {
+        const end = start + value.length;
+        if (value === '' || isAllowed(value) || matches.some(m => start < m.end && end > m.start)) return;
+        matches.push({ start, end, replacement });
+      };
+      for (const rule of rules) {
+        for (const m of text.matchAll(rule.pattern)) add(m.index!, m[0], `${rule.keep ?? ''}[REDACTED:${rule.name}]`);
+      }
+      if (options.entropy) {
+        for (const m of text.matchAll(entropyRe)) {
+          if (looksRandom(m[0])) add(m.index!, m[0], '[REDACTED:high-entropy]');
+        }
+      }
+      return matches.sort((a, b) => a.start - b.start);
+    },
+  };
+}
+
+export function createRedactor(options: RedactorOptions = {}): (text: string) => string {
+  const scanner = createSecretScanner(options);
+  return (text: string): string => {
+    const cleaned = stripZeroWidth(text);
+    let out = '';
+    let pos = 0;
+    for (const m of scanner.find(cleaned)) {
+      out += cleaned.slice(pos, m.start) + m.replacement;
+      pos = m.end;
+    }
+    return out + cleaned.slice(pos);
+  };
+}
+
+/** Built-in rules only — for callers without a loaded config */
+export const redactSecrets = createRedactor();
+
+// ─── Streaming redaction ────────────────────────────────────
+// PTY output arrives in arbitrary chunks, so a secret can be split across two
+// of them or broken up by colour codes and cursor moves. The stream redactor
+// scans the text with escape sequences removed and holds back a bounded tail
+// (plus the word it cuts into, and any unterminated PEM block) until more
+// data arrives or a short flush timer fires.
+
+// CSI, OSC (BEL or ST terminated), charset selection, and two-byte escapes
+const ESCAPE_RE = /\x1b(?:\[[0-?]*[ -\/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[()][0-9A-Za-z]|[@-Z\\^_])/g;
+const ESCAPE_AT_RE = new RegExp(ESCAPE_RE.source, 'y');
+const PARTIAL_ESCAPE_RE = /^\x1b(?:\[[0-?]*[ -\/]*|\][^\x07\x1b]*\x1b?|[()])?$/;
+const ZERO_WIDTH_RE = /[\u200B\u200C\u200D\uFEFF\u00AD\u2060\u180E]/;
+const PEM_BEGIN_RE = /-----BEGIN [A-Z ]+ PRIVATE KEY-----/g;
+
+/** Printable text only — colour codes, cursor moves and titles removed */
+export function stripEscapes(text: string): string {
+  return text.replace(ESCAPE_RE, '');
+}
+
+/** Printable text of `raw` with escapes and zero-width chars removed; map[i] is the raw index of plain[i] */
+function project(raw: string): { plain: string; map: number[]; end: number } {
+  let plain = '';
+  const map: number[] = [];
+  let i = 0;
+  while (i < raw.length) {
+    if (raw[i] === '\x1b') {
+      ESCAPE_AT_RE.lastIndex = i;
+      const m = ESCAPE_AT_RE.exec(raw);
+      if (m) { i += m[0].length; continue; }
+      // Escape sequence still arriving — everything from here is held
+      if (PARTIAL_ESCAPE_RE.test(raw.slice(i))) return { plain, map, end: i };
+    }
+    if (!ZERO_WIDTH_RE.test(raw[i]!)) { plain += raw[i]; map.push(i); }
+    i++;
+  }
+  return { plain, map, end: raw.length };
+}
+
+export interface StreamRedactorOptions {
+  /** Printable characters always held back until more output arrives (default 256) */
+  holdBack?: number;
+  /** Never hold more than this many printable characters (default 16384) */
+  maxHold?: number;
+  /** Emit the held tail after this much quiet time (default 25ms) */
+  flushMs?: number;
+}
+
+export interface StreamRedactor {
+  write(chunk: string): void;
+  /** Emit everything held back right now */
+  flush(): void;
+  dispose(): void;
+}
+
+export function createStreamRedactor(
+  scanner: SecretScanner,
+  onOutput: (redacted: string) => void,
+  options: StreamRedactorOptions = {},
+): StreamRedactor {
+  const holdBack = options.holdBack ?? 256;
+  const maxHold = options.maxHold ?? 16384;
+  const flushMs = options.flushMs ?? 25;
+  let pending = '';
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const emit = (final: boolean) => {
+    if (!pending) return;
+    const raw = pending;
+    const { plain, map, end } = project(raw);
+    const matches = scanner.find(plain);
+    const floor = Math.max(0, plain.length - maxHold);
+
+    let cut = final ? plain.length : Math.max(0, plain.length - holdBack);
+    if (!final) {
+      // Don't cut into a word — it may be the start of a token
+      while (cut > floor && !/\s/.test(plain[cut - 1]!)) cut--;
+      // Hold an unterminated private key block in full
+      for (const m of plain.matchAll(PEM_BEGIN_RE)) {
+        if (m.index! < cut && m.index! >= floor && !plain.includes('-----END', m.index!)) cut = m.index!;
+      }
+      // Never split a match
+      for (const m of matches) if (m.start < cut && m.end > cut) cut = m.start;
+    }
+    const rawCut = final ? raw.length : cut < plain.length ? map[cut]! : end;
+    if (rawCut === 0) return;
+
+    let out = '';
+    let pos = 0;
+    for (const m of matches) {
+      if (m.end > cut) break;
+      const rs = map[m.start]!;
+      const re = map[m.end - 1]! + 1;
+      // Escape sequences inside the secret are kept so colours and cursor state stay intact
+      out += stripZeroWidth(raw.slice(pos, rs)) + m.replacement + (raw.slice(rs, re).match(ESCAPE_RE) ?? []).join('');
+      pos = re;
+    }
+    out += stripZeroWidth(raw.slice(pos, rawCut));
+    pending = raw.slice(rawCut);
+    if (out) onOutput(out);
+  };
+
+  return {
+    write(chunk) {
+      pending += chunk;
+      emit(false);
+      // One timer per held tail — not reset by later chunks, so latency stays bounded
+      if (pending && !timer) {
+        timer = setTimeout(() => { timer = null; emit(true); }, flushMs);
+      }
+    },
+    flush() {
+      if (timer) { clearTimeout(timer); timer = null; }
+      emit(true);
+    },
+    dispose() {
+      if (timer) { clearTimeout(timer); timer = null; }
+      pending = '';
+    },
+  };
 }
@@ -0,0 +1,215 @@
+import WebSocket from 'ws';
+
+// ─── Hub grid relays ────────────────────────────────────────
+// The hub shows local sessions in its grid by holding a WebSocket to each
+// one. Relays are owned by the hub clients watching them: every client that
+// sends grid_connect for a port holds a reference, all of them share one
+// upstream connection, and the last one to leave closes it. While anyone is
+// still watching, a dropped session (restart, token rotation) is retried
+// with exponential backoff.
+
+export type RelayState = 'connecting' | 'open' | 'retrying';
+
+/** Where relay messages for one hub client go — grid_connected, grid_pty, grid_snapshot, grid_disconnected */
+export type RelaySink = (msg: Record<string, unknown>) => void;
+
+export interface RelayStatus {
+  port: number;
+  state: RelayState;
+  /** Hub connection ids holding this relay */
+  clients: string[];
+  /** Reconnect attempts since the relay was last open */
+  attempts: number;
+  /** When the current state began (ms since epoch) */
+  since: number;
+  /** When the next reconnect is due, while retrying */
+  retryAt?: number;
+  lastError?: string;
+}
+
+export interface RelayPoolOptions {
+  /** A fresh one-time ticket for the session on this port — null when it isn't running */
+  ticket(port: number): Promise<string | null>;
+  /** First reconnect delay, doubled on each failure (default 1s) */
+  minDelayMs?: number;
+  /** Longest reconnect delay (default 30s) */
+  maxDelayMs?: number;
+}
+
+export interface RelayPool {
+  /** Start relaying a session's main PTY to a client — a client attaching twice gets a fresh snapshot */
+  attach(client: string, port: number, sink: RelaySink): void;
+  detach(client: string, port: number): void;
+  /** Drop every relay a client holds — when its WebSocket closes */
+  detachAll(client: string): void;
+  /** Keystrokes from a client, for a session it is attached to — false when the relay isn't open */
+  input(client: string, port: number, data: string): boolean;
+  status(): RelayStatus[];
+  close(): void;
+}
+
+// The session's main PTY — the only one grid panels mirror
+const MAIN_PTY = 'main';
+
+interface Relay {
+  port: number;
+  state: RelayState;
+  /** client → sink, and whether it is still waiting for its first snapshot */
+  clients: Map<string, { sink: RelaySink; pending: boolean }>;
+  socket: WebSocket | null;
+  attempts: number;
+  since: number;
+  retryAt?: number;
+  retryTimer?: ReturnType<typeof setTimeout>;
+  lastError?: string;
+}
+
+export function createRelayPool(options: RelayPoolOptions): RelayPool {
+  const minDelay = options.minDelayMs ?? 1000;
+  const maxDelay = options.maxDelayMs ?? 30_000;
+  const relays = new Map<number, Relay>();
+
+  const setState = (relay: Relay, state: RelayState) => {
+    relay.state = state;
+    relay.since = Date.now();
+  };
+
+  const live = (relay: Relay) => relays.get(relay.port) === relay;
+
+  function retry(relay: Relay, error: string) {
+    relay.socket = null;
+    relay.lastError = error;
+    const delay = Math.min(maxDelay, minDelay * 2 ** relay.attempts);
+    relay.attempts++;
+    setState(relay, 'retrying');
+    relay.retryAt = Date.now() + delay;
+    relay.retryTimer = setTimeout(() => { void connect(relay); }, delay);
+  }
+
+  async function connect(relay: Relay) {
+    clearTimeout(relay.retryTimer);
+    relay.retryAt = undefined;
+    setState(relay, 'connecting');
+    let ticket: string | null;
+    try {
+      ticket = await options.ticket(relay.port);
+    } catch (err) {
+      ticket = null;
+      relay.lastError = (err as Error).message;
+    }
+    if (!live(relay)) return;
+    if (!ticket) { retry(relay, relay.lastError ?? 'No ticket — session not running'); return; }
+
+    const socket = new WebSocket(`ws://127.0.0.1:${relay.port}?ticket=${encodeURIComponent(ticket)}`, {
+      headers: { origin: `http://127.0.0.1:${relay.port}` },
+    });
+    relay.socket = socket;
+    let error = 'Connection closed';
+
+    socket.on('open', () => {
+      if (!live(relay)) { socket.close(); return; }
+      relay.attempts = 0;
+      relay.lastError = undefined;
+      setState(relay, 'open');
+      // A new connection gets snapshots from the session without asking
+      for (const client of relay.clients.values()) {
+        client.pending = true;
+        client.sink({ type: 'grid_connected', port: relay.port });
+      }
+    });
+
+    socket.on('message', (data) => {
+      let msg: any;
+      try { msg = JSON.parse(data.toString()); } catch { return; }
+      if ((msg.ptyId ?? MAIN_PTY) !== MAIN_PTY) return;
+      // Output is only forwarded after a client's snapshot — the snapshot already contains anything earlier
+      if (msg.type === 'pty') {
+        for (const client of relay.clients.values()) {
+          if (!client.pending) client.sink({ type: 'grid_pty', port: relay.port, data: msg.data });
+        }
+      }
+      if (msg.type === 'snapshot') {
+        for (const client of relay.clients.values()) {
+          if (!client.pending) continue;
+          client.pending = false;
+          client.sink({ type: 'grid_snapshot', port: relay.port, data: msg.data, cols: msg.cols, rows: msg.rows });
+        }
+      }
+    });
+
+    socket.on('error', (err) => { error = err.message; });
+
+    socket.on('close', (code) => {
+      if (!live(relay) || relay.socket !== socket) return;
+      const wasOpen = relay.state === 'open';
+      retry(relay, wasOpen ? `Closed by session (${code})` : error);
+      if (!wasOpen) return;
+      for (const client of relay.clients.values()) {
+        client.sink({ type: 'grid_disconnected', port: relay.port, retryAt: relay.retryAt });
+      }
+    });
+  }
+
+  function release(relay: Relay) {
+    relays.delete(relay.port);
+    clearTimeout(relay.retryTimer);
+    relay.socket?.close();
+    relay.socket = null;
+  }
+
+  return {
+    attach(client, port, sink) {
+      let relay = relays.get(port);
+      if (!relay) {
+        relay = { port, state: 'connecting', clients: new Map(), socket: null, attempts: 0, since: Date.now() };
+        relays.set(port, relay);
+        relay.clients.set(client, { sink, pending: true });
+        void connect(relay);
+        return;
+      }
+      relay.clients.set(client, { sink, pending: true });
+      if (relay.state === 'open') {
+        sink({ type: 'grid_connected', port });
+        relay.socket!.send(JSON.stringify({ type: 'snapshot_request', ptyId: MAIN_PTY }));
+      } else if (relay.state === 'retrying') {
+        // Someone is looking now — don't make them sit out the backoff
+        void connect(relay);
+      }
+    },
+
+    detach(client, port) {
+      const relay = relays.get(port);
+      if (!relay || !relay.clients.delete(client)) return;
+      if (relay.clients.size === 0) release(relay);
+    },
+
+    detachAll(client) {
+      for (const relay of [...relays.values()]) {
+        if (relay.clients.delete(client) && relay.clients.size === 0) release(relay);
+      }
+    },
+
+    input(client, port, data) {
+      const relay = relays.get(port);
+      if (!relay?.clients.has(client) || relay.state !== 'open' || relay.socket?.readyState !== WebSocket.OPEN) return false;
+      relay.socket.send(JSON.stringify({ type: 'pty_input', data }));
+      return true;
+    },
+
+    status() {
+      return [...relays.values()].map((r) => ({
+        port: r.port,
+        state: r.state,
+        clients: [...r.clients.keys()],
+        attempts: r.attempts,
+        since: r.since,
+        ...(r.retryAt !== undefined ? { retryAt: r.retryAt } : {}),
+        ...(r.lastError !== undefined ? { lastError: r.lastError } : {}),
+      }));
+    },
+
+    close() {
+      for (const relay of [...relays.values()]) release(relay);
+    },
+  };
+}
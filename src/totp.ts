@@ -0,0 +1,168 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+// ─── TOTP second factor ─────────────────────────────────────
+// RFC 6238 codes with the parameters every authenticator app defaults to:
+// SHA-1, 6 digits, 30-second steps. `cli-tunnel totp setup` stores the secret
+// in ~/.cli-tunnel/totp.json; bridges started after that want a current code
+// before they hand out a WebSocket ticket.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+/** Lenient about case, spaces and padding — secrets are often typed in by hand */
+export function base32Decode(text: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const ch of text.toUpperCase().replace(/[\s=-]/g, '')) {
+    const index = BASE32.indexOf(ch);
+    if (index === -1) throw new Error(`Invalid base32 character "${ch}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** A new 160-bit secret, base32 — the form authenticator apps expect */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function totpStep(time = Date.now()): number {
+  return Math.floor(time / 1000 / STEP_SECONDS);
+}
+
+/** The code for one time step */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/** The step a code belongs to, allowing one step of clock drift either way — null when it matches none */
+export function matchTotp(secret: string, code: string, time = Date.now()): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+  const now = totpStep(time);
+  for (const step of [now, now - 1, now + 1]) {
+    if (crypto.timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(code))) return step;
+  }
+  return null;
+}
+
+/** What the enrolment QR code encodes */
+export function otpauthUrl(secret: string, account: string): string {
+  const label = encodeURIComponent(`cli-tunnel:${account}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=cli-tunnel&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+}
+
+export function loadTotpSecret(file: string): string | null {
+  try {
+    const secret = JSON.parse(fs.readFileSync(file, 'utf-8')).secret;
+    return typeof secret === 'string' && base32Decode(secret).length >= 10 ? secret : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveTotpSecret(file: string, secret: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, JSON.stringify({ secret, createdAt: new Date().toISOString() }), { mode: 0o600 });
+  // writeFileSync only applies the mode when it creates the file
+  fs.chmodSync(file, 0o600);
+}
+
+export type TotpResult = 'ok' | 'required' | 'invalid' | 'replayed' | 'locked';
+
+export interface TotpCheck {
+  result: TotpResult;
+  /** Seconds until a locked-out client may try again */
+  retryAfter?: number;
+  /** This failure started a lockout */
+  lockedNow?: boolean;
+}
+
+export interface TotpGuardOptions {
+  /** Wrong codes from one client before it is locked out (default 5) */
+  maxFailures?: number;
+  /** How long a lockout lasts, and how long failures are remembered (default 15 min) */
+  lockoutMs?: number;
+  /** After a good code, the same device needs no code for this long (default 5 min) */
+  graceMs?: number;
+  now?: () => number;
+}
+
+export interface TotpGuard {
+  /**
+   * Check the code a client sent — `client` is what failures and the grace
+   * window are counted by: the token or pairing cookie, never an address
+   * (behind a tunnel every client is 127.0.0.1). Only a `device` credential
+   * gets the grace window: a token can be copied, so everyone holding it
+   * would skip the code.
+   */
+  check(client: string, code: string | undefined, device?: boolean): TotpCheck;
+}
+
+export function createTotpGuard(secret: string, options: TotpGuardOptions = {}): TotpGuard {
+  const maxFailures = options.maxFailures ?? 5;
+  const lockoutMs = options.lockoutMs ?? 15 * 60 * 1000;
+  const graceMs = options.graceMs ?? 5 * 60 * 1000;
+  const now = options.now ?? Date.now;
+  const failures = new Map<string, { count: number; since: number; lockedUntil: number }>();
+  // device → end of its grace window, so reconnects and hub panels don't each need a fresh code
+  const verified = new Map<string, number>();
+  // A code is good once — another client needs the next code
+  let lastStep = -1;
+
+  return {
+    check(client, code, device = false) {
+      const time = now();
+      for (const [c, until] of verified) { if (until <= time) verified.delete(c); }
+      if (verified.has(client)) return { result: 'ok' };
+      let entry = failures.get(client);
+      if (entry && entry.lockedUntil > time) return { result: 'locked', retryAfter: Math.ceil((entry.lockedUntil - time) / 1000) };
+      if (!code) return { result: 'required' };
+      const step = matchTotp(secret, code, time);
+      if (step !== null && step > lastStep) {
+        lastStep = step;
+        failures.delete(client);
+        if (device) verified.set(client, time + graceMs);
+        return { result: 'ok' };
+      }
+      if (step !== null) return { result: 'replayed' };
+      if (!entry || time - entry.since > lockoutMs) {
+        entry = { count: 0, since: time, lockedUntil: 0 };
+        failures.set(client, entry);
+      }
+      if (++entry.count < maxFailures) return { result: 'invalid' };
+      entry.count = 0;
+      entry.since = time;
+      entry.lockedUntil = time + lockoutMs;
+      return { result: 'invalid', lockedNow: true, retryAfter: Math.ceil(lockoutMs / 1000) };
+    },
+  };
+}
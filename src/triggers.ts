@@ -0,0 +1,109 @@
+import { stripEscapes } from './redact.js';
+
+// ─── Output triggers ────────────────────────────────────────
+// Watch the (already redacted) PTY output and tell someone when it matters:
+// a pattern appears (an "Allow this tool?" prompt), the output goes quiet
+// for a while, or the command exits. Each trigger has its own debounce so a
+// prompt that redraws doesn't send a notification per frame.
+
+export type NotifyChannel = 'webhook' | 'push';
+export const NOTIFY_CHANNELS: readonly NotifyChannel[] = ['webhook', 'push'];
+
+/** A trigger from config — exactly one of pattern, idleSeconds or exit */
+export interface TriggerConfig {
+  name: string;
+  /** Regex source matched against printable output */
+  pattern?: string;
+  flags?: string;
+  /** Fire after this many seconds without output */
+  idleSeconds?: number;
+  /** Fire when the command exits */
+  exit?: boolean;
+  /** Minimum seconds between two firings (default 30) */
+  debounceSeconds?: number;
+  /** Where to send it (default both) */
+  notify?: NotifyChannel[];
+}
+
+export interface TriggerEvent {
+  trigger: string;
+  reason: 'output' | 'idle' | 'exit';
+  /** The matched output, for pattern triggers */
+  match?: string;
+  exitCode?: number;
+}
+
+export interface TriggerEngine {
+  /** Feed redacted output */
+  output(text: string): void;
+  /** The command exited — resolves once its notifications are out */
+  exit(code: number): Promise<void>;
+  dispose(): void;
+}
+
+// Output is scanned with this much earlier text, so a match split across chunks is still seen
+const SCAN_WINDOW = 4096;
+const DEFAULT_DEBOUNCE_SECONDS = 30;
+
+export function createTriggerEngine(
+  triggers: TriggerConfig[],
+  onFire: (event: TriggerEvent, trigger: TriggerConfig) => Promise<void> | void,
+): TriggerEngine {
+  const patterns = triggers.filter(t => t.pattern).map(t => ({ t, re: new RegExp(t.pattern!, (t.flags ?? '').replace('g', '')) }));
+  const idle = triggers.filter(t => t.idleSeconds);
+  const exits = triggers.filter(t => t.exit);
+  const lastFired = new Map<string, number>();
+  const idleTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  let text = '';
+  let exited = false;
+
+  const fire = (t: TriggerConfig, event: TriggerEvent): Promise<void> => {
+    const now = Date.now();
+    const last = lastFired.get(t.name);
+    if (event.reason !== 'exit' && last !== undefined && now - last < (t.debounceSeconds ?? DEFAULT_DEBOUNCE_SECONDS) * 1000) {
+      return Promise.resolve();
+    }
+    lastFired.set(t.name, now);
+    try {
+      return Promise.resolve(onFire(event, t)).catch(() => {});
+    } catch {
+      return Promise.resolve();
+    }
+  };
+
+  return {
+    output(chunk) {
+      if (exited) return;
+      text = (text + stripEscapes(chunk).replace(/\r/g, '')).slice(-SCAN_WINDOW);
+      let consumed = 0;
+      for (const { t, re } of patterns) {
+        const m = re.exec(text);
+        if (!m) continue;
+        void fire(t, { trigger: t.name, reason: 'output', match: m[0].trim().slice(0, 200) });
+        consumed = Math.max(consumed, m.index + m[0].length);
+      }
+      // Matched text is not matched again
+      if (consumed) text = text.slice(consumed);
+      // Every chunk restarts the quiet-period clocks
+      for (const t of idle) {
+        clearTimeout(idleTimers.get(t.name));
+        idleTimers.set(t.name, setTimeout(() => {
+          idleTimers.delete(t.name);
+          void fire(t, { trigger: t.name, reason: 'idle' });
+        }, t.idleSeconds! * 1000));
+      }
+    },
+    async exit(code) {
+      if (exited) return;
+      exited = true;
+      for (const timer of idleTimers.values()) clearTimeout(timer);
+      idleTimers.clear();
+      await Promise.all(exits.map(t => fire(t, { trigger: t.name, reason: 'exit', exitCode: code })));
+    },
+    dispose() {
+      exited = true;
+      for (const timer of idleTimers.values()) clearTimeout(timer);
+      idleTimers.clear();
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import readline from 'node:readline';
+
+export const BOLD = '\x1b[1m';
+export const RESET = '\x1b[0m';
+export const DIM = '\x1b[2m';
+export const GREEN = '\x1b[32m';
+export const YELLOW = '\x1b[33m';
+
+export function askUser(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => { rl.close(); resolve(answer.trim().toLowerCase()); });
+  });
+}
+
+/** qrcode-terminal, or null when it can't be loaded — QR codes are a nice-to-have */
+export async function loadQr(): Promise<any> {
+  try {
+    // @ts-ignore
+    return ((await import('qrcode-terminal')) as any).default;
+  } catch {
+    return null;
+  }
+}
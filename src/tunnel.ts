@@ -0,0 +1,394 @@
+import os from 'node:os';
+import { execFileSync, spawn, type ChildProcess } from 'node:child_process';
+import { getSubprocessEnv } from './env.js';
+import { askUser, DIM, GREEN, RESET, YELLOW } from './tty.js';
+
+// ─── Tunnel provider contract ───────────────────────────────
+
+/** Describes the session so providers that support labels/metadata can tag the tunnel */
+export interface TunnelMetadata {
+  name: string;
+  repo: string;
+  branch: string;
+  machine: string;
+}
+
+/** A tunnel as reported by a provider's list() — shape consumed by /api/sessions */
+export interface TunnelSession {
+  id: string;
+  tunnelId: string;
+  name: string;
+  repo: string;
+  branch: string;
+  machine: string;
+  online: boolean;
+  port: number;
+  url: string;
+}
+
+export interface HostedTunnel {
+  url: string;
+  close(): void;
+}
+
+export interface TunnelProvider {
+  readonly name: string;
+  /** Check prerequisites (install, login). Resolves false to continue local-only. */
+  ensureReady(): Promise<boolean>;
+  /** Create (or reserve) a tunnel for the given port. Returns the tunnel id. */
+  create(port: number, meta: TunnelMetadata, expiration: string): Promise<string>;
+  /** Start forwarding traffic and resolve with the public URL. */
+  host(tunnelId: string, port: number): Promise<HostedTunnel>;
+  list(): TunnelSession[];
+  delete(tunnelId: string): boolean;
+  /** F-05: Only tunnels created from this machine may be deleted through the API */
+  isOwnedByThisMachine(tunnelId: string): boolean;
+  /** Provider-specific recovery for create/host failures. Resolves true when the error was reported. */
+  handleError?(err: Error): Promise<boolean>;
+}
+
+export interface TunnelProviderOptions {
+  sshTarget?: string;
+  sshRemotePort?: number;
+  publicUrl?: string;
+  tunnelCommand?: string;
+}
+
+export const PROVIDER_NAMES = ['devtunnel', 'ssh', 'command', 'local'] as const;
+
+export function createTunnelProvider(name: string, options: TunnelProviderOptions = {}): TunnelProvider {
+  switch (name) {
+    case 'devtunnel': return createDevtunnelProvider();
+    case 'ssh': return createSshProvider(options);
+    case 'command': return createCommandProvider(options);
+    case 'local': return createLocalProvider();
+    default: throw new Error(`Unknown tunnel provider "${name}" (expected one of: ${PROVIDER_NAMES.join(', ')})`);
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+export function sanitizeLabel(l: string): string {
+  const clean = l.replace(/[^a-zA-Z0-9_\-=]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '').substring(0, 50);
+  return clean || 'unknown';
+}
+
+/** Split a command line into argv — supports single/double quotes, no shell expansion */
+export function splitCommandLine(line: string): string[] {
+  const out: string[] = [];
+  const re = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(line)) !== null) out.push(m[1] ?? m[2] ?? m[3]!);
+  return out;
+}
+
+/** Resolve with the first https URL a child process prints on stdout or stderr — a child that prints none in time is killed */
+function scrapeUrl(proc: ChildProcess, timeoutMs: number): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    let out = '';
+    // The process keeps printing for as long as the tunnel is up — stop collecting once there is an
+    // answer (the streams keep flowing, so its output is dropped rather than filling the pipe)
+    const done = () => {
+      clearTimeout(timeout);
+      proc.stdout?.off('data', onData);
+      proc.stderr?.off('data', onData);
+    };
+    const timeout = setTimeout(() => { done(); proc.kill(); reject(new Error('Tunnel timeout')); }, timeoutMs);
+    const onData = (d: Buffer) => {
+      out += d.toString();
+      const match = out.match(/https:\/\/[^\s"'<>]+/);
+      if (match) { done(); resolve(match[0]); }
+    };
+    proc.stdout?.on('data', onData);
+    proc.stderr?.on('data', onData);
+    proc.on('error', (e) => { done(); reject(e); });
+    proc.on('exit', (code) => { done(); reject(new Error(`Tunnel process exited with code ${code}`)); });
+  });
+}
+
+/** How to install the devtunnel CLI on this platform */
+export function devtunnelInstallCommand(): string {
+  if (process.platform === 'win32') return 'winget install Microsoft.devtunnel';
+  if (process.platform === 'darwin') return 'brew install --cask devtunnel';
+  return 'curl -sL https://aka.ms/DevTunnelCliInstall | bash';
+}
+
+/** The installed devtunnel CLI's version, or null when it isn't on PATH */
+export function devtunnelVersion(): string | null {
+  try {
+    return execFileSync('devtunnel', ['--version'], { encoding: 'utf-8', timeout: 10000, stdio: 'pipe', env: getSubprocessEnv() }).trim().split('\n')[0] || 'unknown version';
+  } catch {
+    return null;
+  }
+}
+
+/** Whether devtunnel has a signed-in (non-anonymous) user */
+export function devtunnelLoggedIn(): boolean {
+  try {
+    const userInfo = execFileSync('devtunnel', ['user', 'show'], { encoding: 'utf-8', timeout: 10000, stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
+    return !(userInfo.includes('not logged in') || userInfo.includes('No user') || userInfo.includes('Anonymous'));
+  } catch {
+    return false;
+  }
+}
+
+async function loginDevtunnel(): Promise<void> {
+  const loginProc = spawn('devtunnel', ['user', 'login'], { stdio: 'inherit', env: getSubprocessEnv() });
+  await new Promise<void>((resolve, reject) => {
+    loginProc.on('close', (code) => code === 0 ? resolve() : reject(new Error(`Login exited with code ${code}`)));
+    loginProc.on('error', reject);
+  });
+}
+
+// ─── devtunnel (Microsoft Dev Tunnels) ──────────────────────
+
+function createDevtunnelProvider(): TunnelProvider {
+  const run = (args: string[]) => execFileSync('devtunnel', args, { encoding: 'utf-8', timeout: 10000, stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
+
+  return {
+    name: 'devtunnel',
+
+    async ensureReady() {
+      // Check if devtunnel is installed
+      let devtunnelInstalled = devtunnelVersion() !== null;
+      if (!devtunnelInstalled) {
+        console.log(`\n  ${YELLOW}⚠ devtunnel CLI not found!${RESET}\n`);
+        const installCmd = devtunnelInstallCommand();
+        const answer = await askUser(`  Would you like to install it now? (${GREEN}${installCmd}${RESET}) [Y/n] `);
+        if (answer === '' || answer === 'y' || answer === 'yes') {
+          console.log(`\n  ${DIM}Installing devtunnel...${RESET}\n`);
+          try {
+            const installParts = installCmd.split(' ');
+            const installProc = spawn(installParts[0]!, installParts.slice(1), { stdio: 'inherit', shell: process.platform !== 'win32' && installCmd.includes('|'), env: getSubprocessEnv() });
+            await new Promise<void>((resolve, reject) => {
+              installProc.on('close', (code) => code === 0 ? resolve() : reject(new Error(`Install exited with code ${code}`)));
+              installProc.on('error', reject);
+            });
+            // Refresh PATH — winget updates the registry but current process has stale PATH
+            if (process.platform === 'win32') {
+              try {
+                const userPath = execFileSync('reg', ['query', 'HKCU\\Environment', '/v', 'Path'], { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
+                const sysPath = execFileSync('reg', ['query', 'HKLM\\SYSTEM\\CurrentControlSet\\Control\\Session Manager\\Environment', '/v', 'Path'], { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
+                const extractPath = (out: string) => out.split('\n').find(l => l.includes('REG_'))?.split('REG_EXPAND_SZ')[1]?.trim() || out.split('\n').find(l => l.includes('REG_'))?.split('REG_SZ')[1]?.trim() || '';
+                process.env.PATH = `${extractPath(userPath)};${extractPath(sysPath)}`;
+              } catch { /* keep existing PATH */ }
+            }
+            // Verify installation
+            execFileSync('devtunnel', ['--version'], { stdio: 'pipe', env: getSubprocessEnv() });
+            console.log(`\n  ${GREEN}✓${RESET} devtunnel installed successfully!\n`);
+            devtunnelInstalled = true;
+          } catch (err) {
+            console.log(`\n  ${YELLOW}⚠${RESET} Installation failed: ${(err as Error).message}`);
+            console.log(`  ${DIM}You can install it manually: ${installCmd}${RESET}\n`);
+            console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
+          }
+        } else {
+          console.log(`\n  ${DIM}More info: https://aka.ms/devtunnels/doc${RESET}`);
+          console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
+        }
+      }
+      if (!devtunnelInstalled) return false;
+
+      // Check if logged in before attempting tunnel creation
+      if (!devtunnelLoggedIn()) {
+        console.log(`\n  ${YELLOW}⚠ devtunnel not authenticated.${RESET}\n`);
+        const loginAnswer = await askUser(`  Would you like to log in now? [Y/n] `);
+        if (loginAnswer === '' || loginAnswer === 'y' || loginAnswer === 'yes') {
+          try {
+            await loginDevtunnel();
+            console.log(`\n  ${GREEN}✓${RESET} Logged in successfully!\n`);
+          } catch {
+            console.log(`\n  ${YELLOW}⚠${RESET} Login failed. Run manually: ${GREEN}devtunnel user login${RESET}\n`);
+            console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
+            return false;
+          }
+        } else {
+          console.log(`\n  ${DIM}Run this once to log in: ${GREEN}devtunnel user login${RESET}`);
+          console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
+          return false;
+        }
+      }
+      return true;
+    },
+
+    async create(port, meta, expiration) {
+      const labelValues = ['cli-tunnel', sanitizeLabel(meta.name), sanitizeLabel(meta.repo), sanitizeLabel(meta.branch), sanitizeLabel(meta.machine), `port-${port}`];
+      const labelArgs = labelValues.flatMap(l => ['--labels', l]);
+      const createOut = execFileSync('devtunnel', ['create', ...labelArgs, '--expiration', expiration, '--json'], { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'], env: getSubprocessEnv() });
+      const tunnelId = JSON.parse(createOut).tunnel?.tunnelId?.split('.')[0];
+      execFileSync('devtunnel', ['port', 'create', tunnelId, '-p', String(port), '--protocol', 'http'], { stdio: 'pipe', env: getSubprocessEnv() });
+      return tunnelId;
+    },
+
+    async host(tunnelId) {
+      const hostProc = spawn('devtunnel', ['host', tunnelId], { stdio: 'pipe', detached: false, env: getSubprocessEnv() });
+      const url = await scrapeUrl(hostProc, 15000);
+      return { url, close: () => { hostProc.kill(); } };
+    },
+
+    list() {
+      const data = JSON.parse(run(['list', '--labels', 'cli-tunnel', '--json']));
+      return (data.tunnels || []).map((t: any) => {
+        const labels = t.labels || [];
+        const id = t.tunnelId?.replace(/\.\w+$/, '') || t.tunnelId;
+        const cluster = t.tunnelId?.split('.').pop() || 'euw';
+        const portLabel = labels.find((l: string) => l.startsWith('port-'));
+        const p = portLabel ? parseInt(portLabel.replace('port-', ''), 10) : 3456;
+        return {
+          id, tunnelId: t.tunnelId,
+          name: labels[1] || 'unnamed',
+          repo: labels[2] || 'unknown',
+          branch: (labels[3] || 'unknown').replace(/_/g, '/'),
+          machine: labels[4] || 'unknown',
+          online: (t.hostConnections || 0) > 0,
+          port: p,
+          url: `https://${id}-${p}.${cluster}.devtunnels.ms`,
+        };
+      });
+    },
+
+    delete(tunnelId) {
+      try { run(['delete', tunnelId, '--force']); return true; } catch { return false; }
+    },
+
+    isOwnedByThisMachine(tunnelId) {
+      try {
+        const labels = JSON.parse(run(['show', tunnelId, '--json'])).tunnel?.labels || [];
+        // create() labels tunnels with the sanitized hostname
+        return (labels[4] || '') === sanitizeLabel(os.hostname());
+      } catch {
+        return false;
+      }
+    },
+
+    async handleError(err) {
+      const errMsg = err.message || '';
+      // Detect auth failure at create time (expired token, anonymous, etc.)
+      if (!errMsg.includes('Anonymous') && !errMsg.includes('Unauthorized') && !errMsg.includes('not permitted')) return false;
+      console.log(`\n  ${YELLOW}⚠ devtunnel session expired or not authenticated.${RESET}\n`);
+      const loginAnswer = await askUser(`  Would you like to log in now? [Y/n] `);
+      if (loginAnswer === '' || loginAnswer === 'y' || loginAnswer === 'yes') {
+        try {
+          await loginDevtunnel();
+          console.log(`\n  ${GREEN}✓${RESET} Logged in! Please run cli-tunnel again to create the tunnel.\n`);
+        } catch {
+          console.log(`\n  ${YELLOW}⚠${RESET} Login failed. Run manually: ${GREEN}devtunnel user login${RESET}\n`);
+        }
+      }
+      return true;
+    },
+  };
+}
+
+// ─── ssh (reverse tunnel, e.g. a bastion or localhost.run) ──
+
+function createSshProvider(options: TunnelProviderOptions): TunnelProvider {
+  const target = options.sshTarget;
+  const remotePort = options.sshRemotePort ?? 80;
+
+  return {
+    name: 'ssh',
+
+    async ensureReady() {
+      if (!target) {
+        console.log(`\n  ${YELLOW}⚠${RESET} --provider ssh needs ${GREEN}--ssh-target <user@host>${RESET}`);
+        console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
+        return false;
+      }
+      try {
+        execFileSync('ssh', ['-V'], { stdio: 'pipe', env: getSubprocessEnv() });
+        return true;
+      } catch {
+        console.log(`\n  ${YELLOW}⚠ ssh client not found.${RESET}`);
+        console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
+        return false;
+      }
+    },
+
+    async create(port) {
+      return `ssh-${port}`;
+    },
+
+    async host(_tunnelId, port) {
+      const sshArgs = ['-T', '-o', 'ExitOnForwardFailure=yes', '-o', 'ServerAliveInterval=30',
+        '-R', `${remotePort}:127.0.0.1:${port}`, target!];
+      const sshProc = spawn('ssh', sshArgs, { stdio: 'pipe', detached: false, env: getSubprocessEnv() });
+      let url: string;
+      if (options.publicUrl) {
+        // Fixed public URL (own bastion) — treat the forward as up once ssh has stayed alive briefly
+        url = await new Promise<string>((resolve, reject) => {
+          const timer = setTimeout(() => resolve(options.publicUrl!), 3000);
+          sshProc.on('error', (e) => { clearTimeout(timer); reject(e); });
+          sshProc.on('exit', (code) => { clearTimeout(timer); reject(new Error(`ssh exited with code ${code}`)); });
+        });
+      } else {
+        url = await scrapeUrl(sshProc, 15000);
+      }
+      return { url, close: () => { sshProc.kill(); } };
+    },
+
+    // Reverse tunnels have no registry to enumerate — discovery relies on local session files
+    list() { return []; },
+    delete() { return false; },
+    isOwnedByThisMachine() { return false; },
+  };
+}
+
+// ─── command (run any tunnel CLI and scrape its URL) ────────
+
+function createCommandProvider(options: TunnelProviderOptions): TunnelProvider {
+  const template = options.tunnelCommand;
+
+  return {
+    name: 'command',
+
+    async ensureReady() {
+      if (!template) {
+        console.log(`\n  ${YELLOW}⚠${RESET} --provider command needs ${GREEN}--tunnel-command "<cmd with {port}>"${RESET}`);
+        console.log(`  ${DIM}Continuing without tunnel (local only)...${RESET}\n`);
+        return false;
+      }
+      return true;
+    },
+
+    async create(port) {
+      return `cmd-${port}`;
+    },
+
+    async host(_tunnelId, port) {
+      const argv = splitCommandLine(template!.replace(/\{port\}/g, String(port)));
+      if (argv.length === 0) throw new Error('Empty tunnel command');
+      const proc = spawn(argv[0]!, argv.slice(1), { stdio: 'pipe', detached: false, env: getSubprocessEnv() });
+      let url: string;
+      if (options.publicUrl) {
+        // Nothing to scrape, but a missing binary must fail here — an unhandled 'error' event would crash the bridge
+        await new Promise<void>((resolve, reject) => {
+          proc.once('spawn', () => resolve());
+          proc.on('error', reject);
+        });
+        url = options.publicUrl;
+      } else {
+        url = await scrapeUrl(proc, 30000);
+      }
+      return { url, close: () => { proc.kill(); } };
+    },
+
+    list() { return []; },
+    delete() { return false; },
+    isOwnedByThisMachine() { return false; },
+  };
+}
+
+// ─── local (no-op — localhost only, also used by tests) ─────
+
+function createLocalProvider(): TunnelProvider {
+  return {
+    name: 'local',
+    async ensureReady() { return false; },
+    async create(port) { return `local-${port}`; },
+    async host(_tunnelId, port) { return { url: `http://127.0.0.1:${port}`, close: () => {} }; },
+    list() { return []; },
+    delete() { return false; },
+    isOwnedByThisMachine() { return false; },
+  };
+}
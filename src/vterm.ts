@@ -0,0 +1,59 @@
+import headless from '@xterm/headless';
+import serialize from '@xterm/addon-serialize';
+
+// ─── Server-side virtual terminal ───────────────────────────
+// PTY output is fed into a headless xterm so late joiners get an exact
+// snapshot of the current screen (cursor, modes, alt buffer, bounded
+// scrollback) instead of a raw byte replay that may start mid-sequence.
+
+export interface TerminalSnapshot {
+  data: string;
+  cols: number;
+  rows: number;
+}
+
+export interface VirtualTerminal {
+  readonly cols: number;
+  readonly rows: number;
+  /** Lines a snapshot can replay — the screen plus scrollback */
+  readonly lines: number;
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  /**
+   * Serialize the screen once every write issued so far has been parsed.
+   * The callback runs before any later write is applied, so output written
+   * after this call is exactly what the caller still needs to forward.
+   */
+  snapshot(callback: (snap: TerminalSnapshot) => void): void;
+  /** The visible rows as plain text, once every write so far has been parsed — trailing blanks trimmed */
+  text(callback: (text: string) => void): void;
+  dispose(): void;
+}
+
+export function createVirtualTerminal(cols: number, rows: number, scrollback: number): VirtualTerminal {
+  const term = new headless.Terminal({ cols, rows, scrollback, allowProposedApi: true });
+  const serializer = new serialize.SerializeAddon();
+  term.loadAddon(serializer as any);
+
+  return {
+    get cols() { return term.cols; },
+    get rows() { return term.rows; },
+    get lines() { return term.buffer.active.length; },
+    write(data) { term.write(data); },
+    resize(c, r) { term.resize(c, r); },
+    snapshot(callback) {
+      term.write('', () => {
+        callback({ data: serializer.serialize({ scrollback }), cols: term.cols, rows: term.rows });
+      });
+    },
+    text(callback) {
+      term.write('', () => {
+        const buffer = term.buffer.active;
+        const rows: string[] = [];
+        for (let y = 0; y < term.rows; y++) rows.push(buffer.getLine(buffer.baseY + y)?.translateToString(true) ?? '');
+        callback(rows.join('\n').replace(/\s+$/, ''));
+      });
+    },
+    dispose() { term.dispose(); },
+  };
+}